@@ -0,0 +1,137 @@
+// Board layouts: dimensions, the square the first play must cover and the bonus squares.
+// Rules and scoring read the geometry from the layout a game was started with.
+
+export type BonusType = 'DL' | 'TL' | 'QL' | 'DW' | 'TW' | 'QW';
+
+export interface BonusCell { x: number; y: number; bonus: BonusType }
+
+export interface BoardLayout {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  start: { x: number; y: number };
+  bonuses: BonusCell[];
+  tileSets: number; // standard tile sets put in the bag (2 on the large board)
+}
+
+export const DEFAULT_BOARD_LAYOUT = 'standard';
+
+// Standard Scrabble 15x15 board bonus layout.
+function standardBonuses(): BonusCell[] {
+  // Coordinates for bonuses (0-based). This is a standard layout.
+  // Triple Word (TW)
+  const TW = [
+    [0,0],[0,7],[0,14],
+    [7,0],[7,14],
+    [14,0],[14,7],[14,14],
+  ];
+  // Double Word (DW)
+  const DW = [
+    [1,1],[2,2],[3,3],[4,4],[10,10],[11,11],[12,12],[13,13],
+    [1,13],[2,12],[3,11],[4,10],[10,4],[11,3],[12,2],[13,1],
+    [7,7], // center
+  ];
+  // Triple Letter (TL)
+  const TL = [
+    [1,5],[1,9],[5,1],[5,5],[5,9],[5,13],
+    [9,1],[9,5],[9,9],[9,13],[13,5],[13,9],
+  ];
+  // Double Letter (DL)
+  const DL = [
+    [0,3],[0,11],[2,6],[2,8],[3,0],[3,7],[3,14],
+    [6,2],[6,6],[6,8],[6,12],[7,3],[7,11],
+    [8,2],[8,6],[8,8],[8,12],[11,0],[11,7],[11,14],
+    [12,6],[12,8],[14,3],[14,11],
+  ];
+  const out: BonusCell[] = [];
+  for (const [x,y] of TW) out.push({ x, y, bonus: 'TW' });
+  for (const [x,y] of DW) out.push({ x, y, bonus: 'DW' });
+  for (const [x,y] of TL) out.push({ x, y, bonus: 'TL' });
+  for (const [x,y] of DL) out.push({ x, y, bonus: 'DL' });
+  return out;
+}
+
+// The other layouts are symmetric in both axes and both diagonals, so they are given
+// by one eighth of the board ([x, y] with y <= x up to the center) and mirrored
+function symmetric(size: number, octant: Array<[number, number, BonusType]>): BonusCell[] {
+  const last = size - 1;
+  const cells = new Map<string, BonusCell>();
+  for (const [x, y, bonus] of octant) {
+    for (const [a, b] of [[x, y], [y, x]]) {
+      for (const [cx, cy] of [[a, b], [last - a, b], [a, last - b], [last - a, last - b]]) {
+        cells.set(`${cx},${cy}`, { x: cx, y: cy, bonus });
+      }
+    }
+  }
+  return Array.from(cells.values());
+}
+
+const LAYOUTS: BoardLayout[] = [
+  { id: 'standard', name: 'Standard 15x15', width: 15, height: 15, start: { x: 7, y: 7 }, bonuses: standardBonuses(), tileSets: 1 },
+  {
+    id: 'super',
+    name: 'Super Scrabble 21x21',
+    width: 21,
+    height: 21,
+    start: { x: 10, y: 10 },
+    bonuses: symmetric(21, [
+      [0, 0, 'QW'], [3, 0, 'DL'], [7, 0, 'TW'], [10, 0, 'DL'],
+      [1, 1, 'DW'], [4, 1, 'TL'], [8, 1, 'DW'],
+      [2, 2, 'DW'], [5, 2, 'QL'], [9, 2, 'DW'],
+      [3, 3, 'TW'], [6, 3, 'DL'], [10, 3, 'TW'],
+      [4, 4, 'DW'], [8, 4, 'TL'],
+      [5, 5, 'DW'], [9, 5, 'DL'],
+      [6, 6, 'DW'], [10, 6, 'DL'],
+      [7, 7, 'DW'],
+      [8, 8, 'TL'],
+      [9, 9, 'DL'],
+      [10, 10, 'DW'], // center
+    ]),
+    tileSets: 2,
+  },
+  {
+    // Bonuses spread away from the edges, plain start square
+    id: 'spread',
+    name: 'Spread 15x15',
+    width: 15,
+    height: 15,
+    start: { x: 7, y: 7 },
+    bonuses: symmetric(15, [
+      [0, 0, 'TL'], [4, 0, 'TW'], [7, 0, 'DL'],
+      [1, 1, 'DL'], [5, 1, 'TL'],
+      [2, 2, 'DW'], [6, 2, 'DL'],
+      [3, 3, 'TL'], [7, 3, 'DW'],
+      [4, 4, 'DW'], [6, 4, 'DL'],
+      [5, 5, 'TL'],
+    ]),
+    tileSets: 1,
+  },
+  {
+    id: 'compact',
+    name: 'Compact 11x11',
+    width: 11,
+    height: 11,
+    start: { x: 5, y: 5 },
+    bonuses: symmetric(11, [
+      [0, 0, 'TW'], [3, 0, 'DL'], [5, 0, 'TW'],
+      [1, 1, 'DW'], [5, 1, 'TL'],
+      [2, 2, 'DW'], [4, 2, 'DL'],
+      [3, 3, 'TL'],
+      [4, 4, 'DW'],
+      [5, 5, 'DW'], // center
+    ]),
+    tileSets: 1,
+  },
+];
+
+export const BOARD_LAYOUTS: string[] = LAYOUTS.map((l) => l.id);
+
+// Unknown ids fall back to the standard board
+export function getBoardLayout(id: string): BoardLayout {
+  return LAYOUTS.find((l) => l.id === id) || LAYOUTS[0];
+}
+
+export function listBoardLayouts(): BoardLayout[] {
+  return LAYOUTS;
+}
@@ -1,117 +1,209 @@
 // Global configuration and constants
 
+// Defaults for new rooms; each room may change them in its settings (within the bounds below)
 export const TURN_DURATION_MS = 180_000; // 3 minutes
 export const MAX_CONSECUTIVE_PASSES = 6;
+export const MAX_PLAYERS = 4;
+export const TURN_DURATION_MIN_MS = 30_000;
+export const TURN_DURATION_MAX_MS = 30 * 60_000;
+export const PASS_LIMIT_MIN = 2;
+export const PASS_LIMIT_MAX = 12;
+export const BINGO_BONUS_MAX = 200;
 export const ROOM_IDLE_CLEANUP_MS = 30 * 60_000; // 30 minutes
 export const ROOM_SWEEP_INTERVAL_MS = 5 * 60_000; // 5 minutes
 export const TURN_TICK_INTERVAL_MS = 1_000; // 1 second
 
-export type Language = 'EN' | 'FR';
+// Challenge rules: 'void' rejects invalid words immediately; under 'points' and 'double'
+// a play stands until an opponent challenges it within the window. A failed challenge
+// costs the challenger CHALLENGE_PENALTY_POINTS ('points') or their next turn ('double').
+export type ChallengeRule = 'void' | 'points' | 'double';
+export const CHALLENGE_RULES: ChallengeRule[] = ['void', 'points', 'double'];
+// 'points' was first called 'single'; clients and saved rooms may still use that name
+export const LEGACY_CHALLENGE_RULE = 'single';
+export const CHALLENGE_WINDOW_MS = 20_000; // 20 seconds
+export const CHALLENGE_PENALTY_POINTS = 5;
+
+// Opponents have this long to answer a takeback request
+export const TAKEBACK_WINDOW_MS = 20_000;
+
+export const BINGO_BONUS = 50; // all 7 rack tiles played in one move
+export const HINT_DEFAULT_COUNT = 5;
+export const HINT_MAX_COUNT = 20;
+
+// Hints: 'off', 'unlimited', or 'limited' to a number of requests per player and game
+export type HintPolicy = 'off' | 'unlimited' | 'limited';
+export const HINT_POLICIES: HintPolicy[] = ['off', 'unlimited', 'limited'];
+export const HINTS_PER_PLAYER_DEFAULT = 3;
+export const HINTS_PER_PLAYER_MAX = 50;
+
+// Computer opponents: 'random' plays any legal move, 'greedy' the top-scoring one,
+// 'strategic' weighs the score against the tiles kept on the rack.
+export type BotLevel = 'random' | 'greedy' | 'strategic';
+export const BOT_LEVELS: BotLevel[] = ['random', 'greedy', 'strategic'];
+export const BOT_THINK_MIN_MS = 1_500;
+export const BOT_THINK_MAX_MS = 4_000;
+
+export const MAX_SPECTATORS = 50;
+
+// Public rooms are listed in the lobby; private ones are only reached with their code
+export type RoomVisibility = 'public' | 'private';
+export const ROOM_VISIBILITIES: RoomVisibility[] = ['public', 'private'];
+// A quick match group starts with whoever is waiting (or a bot) after this long
+export const QUICK_MATCH_TIMEOUT_MS = 60_000;
+
+// Chat: messages kept per room, longest message, and at most CHAT_RATE_LIMIT messages
+// per sender within CHAT_RATE_WINDOW_MS
+export const CHAT_HISTORY_SIZE = 100;
+export const CHAT_MAX_LENGTH = 300;
+export const CHAT_RATE_LIMIT = 5;
+export const CHAT_RATE_WINDOW_MS = 10_000;
+
+// Glicko-2 ratings: starting values and the system constant (how fast volatility moves)
+export const RATING_INITIAL = 1500;
+export const RATING_INITIAL_RD = 350;
+export const RATING_INITIAL_VOLATILITY = 0.06;
+export const RATING_TAU = 0.5;
+// Below this many games a rating is shown as provisional
+export const RATING_PROVISIONAL_GAMES = 5;
+
+// Career statistics: how many of a player's most played words their profile lists
+export const CAREER_WORDS_SHOWN = 10;
+
+// HTTP API pagination
+export const API_PAGE_DEFAULT = 20;
+export const API_PAGE_MAX = 100;
+
+// Session tokens (see SessionTokens.ts) are accepted this long after being issued
+export const SESSION_TOKEN_TTL_MS = 30 * 24 * 60 * 60_000;
+
+// Client-generated move ids (see playMove)
+export const MOVE_ID_MAX_LENGTH = 64;
+
+// Client-generated ids echoed back on the replies to a message (see WebSocketServer.send)
+export const REQUEST_ID_MAX_LENGTH = 64;
+
+// WebSocket protocol versions, agreed on with the hello message (see ws/protocol.ts). Clients
+// that never say hello speak PROTOCOL_LEGACY_VERSION, the protocol from before versions.
+export const PROTOCOL_VERSION = 2;
+export const PROTOCOL_MIN_VERSION = 1;
+export const PROTOCOL_LEGACY_VERSION = 1;
+// What the server offers beyond the core game messages; clients say which ones they handle.
+// Session tokens and requestId echoes reach every client; they are listed so clients can require them.
+export type ProtocolFeature =
+  | 'sessionTokens' | 'requestIds' | 'chat' | 'spectators' | 'lobby' | 'quickMatch' | 'duplicate' | 'chessClock'
+  | 'challenges' | 'takebacks' | 'hints' | 'movePreview' | 'imports' | 'exports' | 'ratings' | 'profiles';
+export const PROTOCOL_FEATURES: ProtocolFeature[] = [
+  'sessionTokens', 'requestIds', 'chat', 'spectators', 'lobby', 'quickMatch', 'duplicate', 'chessClock',
+  'challenges', 'takebacks', 'hints', 'movePreview', 'imports', 'exports', 'ratings', 'profiles',
+];
+
+// Every code an `error` message (or `invalidMove`) can carry. Codes are stable: clients show
+// their own text for them, `message` is a hint for developers. Never rename one.
+export const ERROR_CODES = [
+  // Protocol
+  'BAD_MESSAGE', 'UNKNOWN_TYPE', 'BAD_PAYLOAD', 'SERVER_ERROR', 'INVALID_TOKEN', 'UPGRADE_REQUIRED',
+  // Rooms and seats
+  'ROOM_NOT_FOUND', 'ROOM_FULL', 'ROOM_NOT_JOINABLE', 'NICKNAME_TAKEN', 'TOO_MANY_SPECTATORS', 'NOT_IN_ROOM', 'NOT_HOST',
+  'INVALID_STATE', 'INVALID_SETTINGS', 'UNKNOWN_DICTIONARY', 'MIN_PLAYERS', 'NOT_ALL_READY', 'RECONNECT_FAILED', 'PLAYER_NOT_FOUND',
+  'NO_PLAYERS', 'NO_MATCH_FOUND', 'ROOM_ID_GENERATION_FAILED', 'JOIN_FAILED', 'SPECTATE_FAILED', 'START_FAILED',
+  // Bots
+  'BOTS_UNAVAILABLE', 'BOT_NOT_FOUND', 'RATED_NO_BOTS', 'ADD_BOT_FAILED',
+  // Moves
+  'NO_GAME', 'GAME_OVER', 'NOT_YOUR_TURN', 'PLAYER_NOT_IN_ROOM', 'NOT_CONNECTED', 'STALE_STATE', 'NO_PLACEMENTS', 'OUT_OF_BOUNDS',
+  'CELL_OCCUPIED', 'DUPLICATE_TILE', 'TILE_NOT_IN_RACK', 'NOT_ALIGNED', 'NOT_CONTIGUOUS', 'MUST_COVER_CENTER', 'NO_WORD_FORMED',
+  'INVALID_WORD', 'JOKER_LETTER_REQUIRED', 'INVALID_JOKER_LETTER', 'NO_TILES_TO_EXCHANGE', 'BAG_TOO_SMALL', 'CHALLENGE_WINDOW_OPEN',
+  'INVALID_MOVE',
+  // Duplicate
+  'NOT_DUPLICATE', 'DUPLICATE_UNAVAILABLE', 'DUPLICATE_ROUND', 'ROUND_OVER', 'NO_EXCHANGE_IN_DUPLICATE',
+  // Challenges and takebacks
+  'NO_CHALLENGE_WINDOW', 'CANNOT_CHALLENGE_OWN_MOVE', 'CHALLENGE_FAILED', 'TAKEBACKS_DISABLED', 'TAKEBACK_PENDING', 'NOTHING_TO_TAKE_BACK',
+  'NO_TAKEBACK_REQUEST', 'CANNOT_ANSWER_OWN_REQUEST', 'TAKEBACK_FAILED',
+  // Hints and previews
+  'HINTS_DISABLED', 'HINTS_UNAVAILABLE', 'HINT_LIMIT_REACHED', 'HINT_FAILED', 'PREVIEW_FAILED',
+  // Imports
+  'IMPORT_FAILED', 'IMPORT_BAD_BOARD_SIZE', 'IMPORT_BAD_COORDINATE', 'IMPORT_BAD_GCG_LINE', 'IMPORT_BAD_GCG_SCORE', 'IMPORT_BAD_LETTER',
+  'IMPORT_BAD_PLAY_THROUGH', 'IMPORT_BAD_SEAT', 'IMPORT_BAD_SNAPSHOT', 'IMPORT_CONFLICT', 'IMPORT_EMPTY_PLAY', 'IMPORT_GAME_FINISHED', 'IMPORT_INVALID_WORD',
+  'IMPORT_NO_PLAYERS', 'IMPORT_OUT_OF_BOUNDS', 'IMPORT_PLAYER_COUNT_MISMATCH', 'IMPORT_TILE_COUNT_EXCEEDED', 'IMPORT_UNKNOWN_PLAYER',
+  // Chat
+  'CHAT_EMPTY', 'CHAT_TOO_LONG', 'CHAT_MUTED', 'CHAT_RATE_LIMITED', 'CHAT_FAILED',
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// Time controls: 'perTurn' gives every turn the room's turn duration; under a chess clock each
+// player has a time bank for the whole game ('chessClockIncrement' adds time after each
+// move). Running over costs OVERTIME_PENALTY_POINTS per started minute at the end, and a
+// player still thinking OVERTIME_MAX_MS past their bank ends the game on time (final
+// scoring as usual, overtime penalty included). Clocks don't run while the previous
+// play is open to challenge.
+export type TimeControlMode = 'perTurn' | 'chessClock' | 'chessClockIncrement';
+export const TIME_CONTROL_MODES: TimeControlMode[] = ['perTurn', 'chessClock', 'chessClockIncrement'];
+export const CHESS_CLOCK_DEFAULT_MS = 25 * 60_000; // 25 minutes
+export const CHESS_CLOCK_MAX_MS = 120 * 60_000;
+export const CLOCK_INCREMENT_DEFAULT_MS = 10_000;
+export const CLOCK_INCREMENT_MAX_MS = 5 * 60_000;
+export const OVERTIME_PENALTY_POINTS = 10;
+export const OVERTIME_MAX_MS = 10 * 60_000;
+
+// 'classic': turn-based with private racks. 'duplicate': every player gets the same
+// rack each round, the top play goes on the board and each player scores what they found.
+export type GameMode = 'classic' | 'duplicate';
+export const GAME_MODES: GameMode[] = ['classic', 'duplicate'];
+// Duplicate racks need 2 vowels and 2 consonants for this many rounds, then 1 of each
+export const DUPLICATE_BALANCED_ROUNDS = 15;
+
+export type Language = 'EN' | 'FR' | 'ES' | 'DE' | 'IT' | 'NL';
+export const LANGUAGES: Language[] = ['EN', 'FR', 'ES', 'DE', 'IT', 'NL'];
+// Default language of new rooms
 export const LANGUAGE: Language = (process.env.SCRABBLE_LANG as Language) || 'EN';
 
-// Standard Scrabble 15x15 board bonus layout.
-export type BonusType = 'DL' | 'TL' | 'DW' | 'TW';
-
-export interface BonusCell { x: number; y: number; bonus: BonusType }
-
-export function generateBonusLayout(): BonusCell[] {
-  // Coordinates for bonuses (0-based). This is a standard layout.
-  // Triple Word (TW)
-  const TW = [
-    [0,0],[0,7],[0,14],
-    [7,0],[7,14],
-    [14,0],[14,7],[14,14],
-  ];
-  // Double Word (DW)
-  const DW = [
-    [1,1],[2,2],[3,3],[4,4],[10,10],[11,11],[12,12],[13,13],
-    [1,13],[2,12],[3,11],[4,10],[10,4],[11,3],[12,2],[13,1],
-    [7,7], // center
-  ];
-  // Triple Letter (TL)
-  const TL = [
-    [1,5],[1,9],[5,1],[5,5],[5,9],[5,13],
-    [9,1],[9,5],[9,9],[9,13],[13,5],[13,9],
-  ];
-  // Double Letter (DL)
-  const DL = [
-    [0,3],[0,11],[2,6],[2,8],[3,0],[3,7],[3,14],
-    [6,2],[6,6],[6,8],[6,12],[7,3],[7,11],
-    [8,2],[8,6],[8,8],[8,12],[11,0],[11,7],[11,14],
-    [12,6],[12,8],[14,3],[14,11],
-  ];
-  const out: BonusCell[] = [];
-  for (const [x,y] of TW) out.push({ x, y, bonus: 'TW' });
-  for (const [x,y] of DW) out.push({ x, y, bonus: 'DW' });
-  for (const [x,y] of TL) out.push({ x, y, bonus: 'TL' });
-  for (const [x,y] of DL) out.push({ x, y, bonus: 'DL' });
-  return out;
+const VOWELS: Record<Language, string[]> = {
+  EN: ['A', 'E', 'I', 'O', 'U'],
+  FR: ['A', 'E', 'I', 'O', 'U', 'Y'],
+  ES: ['A', 'E', 'I', 'O', 'U'],
+  DE: ['A', 'E', 'I', 'O', 'U', 'Ä', 'Ö', 'Ü'],
+  IT: ['A', 'E', 'I', 'O', 'U'],
+  NL: ['A', 'E', 'I', 'O', 'U'],
+};
+
+export function getVowels(lang: Language): string[] {
+  return VOWELS[lang];
 }
 
 // Letter distributions (counts and values)
 export interface LetterDef { letter: string; count: number; value: number; isJoker?: boolean }
 
+// Official tile sets as "letter count value", two jokers each. Spanish CH, LL and RR are
+// single tiles covering one square.
+const DISTRIBUTIONS: Record<Language, string> = {
+  EN: 'A 9 1, B 2 3, C 2 3, D 4 2, E 12 1, F 2 4, G 3 2, H 2 4, I 9 1, J 1 8, K 1 5, L 4 1, M 2 3, N 6 1, O 8 1, '
+    + 'P 2 3, Q 1 10, R 6 1, S 4 1, T 6 1, U 4 1, V 2 4, W 2 4, X 1 8, Y 2 4, Z 1 10',
+  FR: 'A 9 1, B 2 3, C 2 3, D 3 2, E 15 1, F 2 4, G 2 2, H 2 4, I 8 1, J 1 8, K 1 10, L 5 1, M 3 2, N 6 1, O 6 1, '
+    + 'P 2 3, Q 1 8, R 6 1, S 6 1, T 6 1, U 6 1, V 2 4, W 1 10, X 1 10, Y 1 10, Z 1 10',
+  ES: 'A 12 1, B 2 3, C 4 3, CH 1 5, D 5 2, E 12 1, F 1 4, G 2 2, H 2 4, I 6 1, J 1 8, L 4 1, LL 1 8, M 2 3, N 5 1, '
+    + 'Ñ 1 8, O 9 1, P 2 3, Q 1 5, R 5 1, RR 1 8, S 6 1, T 4 1, U 5 1, V 1 4, X 1 8, Y 1 4, Z 1 10',
+  DE: 'A 5 1, B 2 3, C 2 4, D 4 1, E 15 1, F 2 4, G 3 2, H 4 2, I 6 1, J 1 6, K 2 4, L 3 2, M 4 3, N 9 1, O 3 2, '
+    + 'P 1 4, Q 1 10, R 6 1, S 7 1, T 6 1, U 6 1, V 1 6, W 1 3, X 1 8, Y 1 10, Z 1 3, Ä 1 6, Ö 1 8, Ü 1 6',
+  IT: 'A 14 1, B 3 5, C 6 2, D 3 5, E 11 1, F 3 5, G 2 8, H 2 8, I 12 1, L 5 3, M 5 3, N 5 3, O 15 1, P 3 5, '
+    + 'Q 1 10, R 6 2, S 6 2, T 6 2, U 5 3, V 3 5, Z 2 8',
+  NL: 'A 6 1, B 2 3, C 2 5, D 5 2, E 18 1, F 2 4, G 3 3, H 2 4, I 4 1, J 2 4, K 3 3, L 3 3, M 3 3, N 10 1, O 6 1, '
+    + 'P 2 3, Q 1 10, R 5 2, S 5 2, T 5 2, U 3 4, V 2 4, W 2 5, X 1 8, Y 1 8, Z 2 4',
+};
+
 export function getLetterDistribution(lang: Language): LetterDef[] {
-  if (lang === 'FR') {
-    // Simplified FR distribution (TODO: adjust to official values if needed)
-    return [
-      { letter: 'A', count: 9, value: 1 },
-      { letter: 'B', count: 2, value: 3 },
-      { letter: 'C', count: 2, value: 3 },
-      { letter: 'D', count: 3, value: 2 },
-      { letter: 'E', count: 15, value: 1 },
-      { letter: 'F', count: 2, value: 4 },
-      { letter: 'G', count: 2, value: 2 },
-      { letter: 'H', count: 2, value: 4 },
-      { letter: 'I', count: 8, value: 1 },
-      { letter: 'J', count: 1, value: 8 },
-      { letter: 'K', count: 1, value: 10 },
-      { letter: 'L', count: 5, value: 1 },
-      { letter: 'M', count: 3, value: 2 },
-      { letter: 'N', count: 6, value: 1 },
-      { letter: 'O', count: 6, value: 1 },
-      { letter: 'P', count: 2, value: 3 },
-      { letter: 'Q', count: 1, value: 8 },
-      { letter: 'R', count: 6, value: 1 },
-      { letter: 'S', count: 6, value: 1 },
-      { letter: 'T', count: 6, value: 1 },
-      { letter: 'U', count: 6, value: 1 },
-      { letter: 'V', count: 2, value: 4 },
-      { letter: 'W', count: 1, value: 10 },
-      { letter: 'X', count: 1, value: 10 },
-      { letter: 'Y', count: 1, value: 10 },
-      { letter: 'Z', count: 1, value: 10 },
-      { letter: '', count: 2, value: 0, isJoker: true },
-    ];
-  }
-  // EN default (standard Scrabble)
-  return [
-    { letter: 'A', count: 9, value: 1 },
-    { letter: 'B', count: 2, value: 3 },
-    { letter: 'C', count: 2, value: 3 },
-    { letter: 'D', count: 4, value: 2 },
-    { letter: 'E', count: 12, value: 1 },
-    { letter: 'F', count: 2, value: 4 },
-    { letter: 'G', count: 3, value: 2 },
-    { letter: 'H', count: 2, value: 4 },
-    { letter: 'I', count: 9, value: 1 },
-    { letter: 'J', count: 1, value: 8 },
-    { letter: 'K', count: 1, value: 5 },
-    { letter: 'L', count: 4, value: 1 },
-    { letter: 'M', count: 2, value: 3 },
-    { letter: 'N', count: 6, value: 1 },
-    { letter: 'O', count: 8, value: 1 },
-    { letter: 'P', count: 2, value: 3 },
-    { letter: 'Q', count: 1, value: 10 },
-    { letter: 'R', count: 6, value: 1 },
-    { letter: 'S', count: 4, value: 1 },
-    { letter: 'T', count: 6, value: 1 },
-    { letter: 'U', count: 4, value: 1 },
-    { letter: 'V', count: 2, value: 4 },
-    { letter: 'W', count: 2, value: 4 },
-    { letter: 'X', count: 1, value: 8 },
-    { letter: 'Y', count: 2, value: 4 },
-    { letter: 'Z', count: 1, value: 10 },
-    { letter: '', count: 2, value: 0, isJoker: true },
-  ];
+  const defs: LetterDef[] = DISTRIBUTIONS[lang].split(',').map((entry) => {
+    const [letter, count, value] = entry.trim().split(' ');
+    return { letter, count: Number(count), value: Number(value) };
+  });
+  defs.push({ letter: '', count: 2, value: 0, isJoker: true });
+  return defs;
+}
+
+// Letters a tile (or a joker) can stand for
+export function getTileLetters(lang: Language): string[] {
+  return getLetterDistribution(lang).filter((d) => !d.isJoker).map((d) => d.letter);
+}
+
+// Tiles spelled with more than one letter (Spanish CH, LL, RR)
+export function getMultiLetterTiles(lang: Language): string[] {
+  return getTileLetters(lang).filter((l) => l.length > 1);
 }
@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import type { RoomStatus } from '../models/types';
+import { API_PAGE_DEFAULT, API_PAGE_MAX, LANGUAGE, LANGUAGES, TIME_CONTROL_MODES } from '../config/constants';
+import type { Language, TimeControlMode } from '../config/constants';
+import type { RoomStore } from '../services/RoomStore';
+import type { GameService } from '../services/GameService';
+import { ratingPool } from '../services/RatingService';
+import type { RatingService } from '../services/RatingService';
+import { toProfileSummary } from '../services/ProfileStore';
+import type { ProfileStore } from '../services/ProfileStore';
+import { exportGcg } from '../services/GcgExporter';
+import { roomLayout, toGameResults, toGameStateSummaryForPlayer, toPublicMove, toRoomSummary } from '../views/summaries';
+
+const ROOM_STATUSES: RoomStatus[] = ['waiting', 'playing', 'finished'];
+
+// Read-only HTTP view of the rooms, mounted on /rooms. Nothing here shows a rack
+// before the game is over. Errors are always { error: CODE, message }.
+export function createRoomsRouter(roomStore: RoomStore, game: GameService, ratings: RatingService): Router {
+  const router = Router();
+
+  // Public rooms only: ?status=waiting|playing|finished&language=FR&limit=20&offset=0
+  router.get('/', (req, res) => {
+    const { status, language } = req.query;
+    if (status !== undefined && !ROOM_STATUSES.includes(status as RoomStatus)) return httpError(res, 400, 'BAD_QUERY', 'Unknown status');
+    if (language !== undefined && !LANGUAGES.includes(String(language).toUpperCase() as Language)) return httpError(res, 400, 'BAD_QUERY', 'Unknown language');
+    const page = parsePage(req);
+    if (!page) return httpError(res, 400, 'BAD_QUERY', 'Invalid limit or offset');
+    const rooms = roomStore.listRooms().filter((room) => room.visibility === 'public' &&
+      (status === undefined || room.status === status) && (language === undefined || room.settings.language === String(language).toUpperCase()),
+    );
+    const summaries = rooms.slice(page.offset, page.offset + page.limit).map((room) => toRoomSummary(room, ratings));
+    res.json({ rooms: summaries, total: rooms.length, ...page });
+  });
+
+  router.get('/:roomId', (req, res) => {
+    const room = roomStore.getRoom(req.params.roomId.toUpperCase());
+    if (!room) return httpError(res, 404, 'ROOM_NOT_FOUND', 'Room not found');
+    res.json({ room: toRoomSummary(room, ratings), layout: roomLayout(room) });
+  });
+
+  // Board, scores and log as a spectator without racks would see them
+  router.get('/:roomId/game', (req, res) => {
+    const room = roomStore.getRoom(req.params.roomId.toUpperCase());
+    if (!room) return httpError(res, 404, 'ROOM_NOT_FOUND', 'Room not found');
+    if (!room.game) return httpError(res, 404, 'NO_GAME', 'No game in this room');
+    res.json({ roomId: room.id, status: room.status, layout: roomLayout(room), gameState: toGameStateSummaryForPlayer(room.game, room.players, '') });
+  });
+
+  // Racks and exchanged letters are only included once the game is over
+  router.get('/:roomId/moves', (req, res) => {
+    const room = roomStore.getRoom(req.params.roomId.toUpperCase());
+    if (!room) return httpError(res, 404, 'ROOM_NOT_FOUND', 'Room not found');
+    if (!room.game) return httpError(res, 404, 'NO_GAME', 'No game in this room');
+    const page = parsePage(req);
+    if (!page) return httpError(res, 400, 'BAD_QUERY', 'Invalid limit or offset');
+    const log = room.game.log;
+    const moves = log.slice(page.offset, page.offset + page.limit).map((m) => (room.status === 'finished' ? m : toPublicMove(m)));
+    res.json({ roomId: room.id, moves, total: log.length, ...page });
+  });
+
+  router.get('/:roomId/results', (req, res) => {
+    const room = roomStore.getRoom(req.params.roomId.toUpperCase());
+    if (!room) return httpError(res, 404, 'ROOM_NOT_FOUND', 'Room not found');
+    if (!room.game || room.status !== 'finished') return httpError(res, 409, 'GAME_NOT_FINISHED', 'The game is not over');
+    res.json(toGameResults(room, game));
+  });
+
+  // GCG export of a room's game; racks are only included once the game is over
+  router.get('/:roomId/game.gcg', (req, res) => {
+    const room = roomStore.getRoom(req.params.roomId.toUpperCase());
+    if (!room) return httpError(res, 404, 'ROOM_NOT_FOUND', 'Room not found');
+    if (!room.game) return httpError(res, 404, 'NO_GAME', 'No game in this room');
+    res.type('text/plain').attachment(`${room.id}.gcg`).send(exportGcg(room, { revealRacks: room.status === 'finished' }));
+  });
+
+  return withErrorHandlers(router);
+}
+
+// Ratings by language and time control, mounted on /leaderboards:
+// ?language=FR&timeControl=perTurn|chessClock|chessClockIncrement&limit=20&offset=0
+export function createLeaderboardRouter(ratings: RatingService): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    const language = String(req.query.language ?? LANGUAGE).toUpperCase() as Language;
+    const timeControl = String(req.query.timeControl ?? 'perTurn') as TimeControlMode;
+    if (!LANGUAGES.includes(language)) return httpError(res, 400, 'BAD_QUERY', 'Unknown language');
+    if (!TIME_CONTROL_MODES.includes(timeControl)) return httpError(res, 400, 'BAD_QUERY', 'Unknown time control');
+    const page = parsePage(req);
+    if (!page) return httpError(res, 400, 'BAD_QUERY', 'Invalid limit or offset');
+    const { entries, total } = ratings.leaderboard(ratingPool(language, timeControl), page.limit, page.offset);
+    res.json({ language, timeControl, players: entries, total, ...page });
+  });
+
+  return withErrorHandlers(router);
+}
+
+// Ratings and career statistics, mounted on /players
+export function createPlayersRouter(profiles: ProfileStore): Router {
+  const router = Router();
+
+  router.get('/:playerId', (req, res) => {
+    const profile = profiles.getProfile(req.params.playerId);
+    if (!profile) return httpError(res, 404, 'PLAYER_NOT_FOUND', 'No finished game for this player');
+    res.json({ profile: toProfileSummary(profile) });
+  });
+
+  return withErrorHandlers(router);
+}
+
+// JSON 404 for unknown routes and 500 for anything thrown
+function withErrorHandlers(router: Router): Router {
+  router.use((_req, res) => httpError(res, 404, 'NOT_FOUND', 'Unknown route'));
+  router.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    console.error('[http] error handling request', err);
+    httpError(res, 500, 'SERVER_ERROR', 'Internal error');
+  });
+  return router;
+}
+
+export function httpError(res: Response, status: number, code: string, message: string) {
+  res.status(status).json({ error: code, message });
+}
+
+// limit/offset query parameters; undefined when they are not valid
+function parsePage(req: Request): { limit: number; offset: number } | undefined {
+  const limit = req.query.limit === undefined ? API_PAGE_DEFAULT : Number(req.query.limit);
+  const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+  if (!Number.isInteger(limit) || limit < 1 || limit > API_PAGE_MAX) return undefined;
+  if (!Number.isInteger(offset) || offset < 0) return undefined;
+  return { limit, offset };
+}
@@ -3,12 +3,27 @@ import http from 'node:http';
 import cors from 'cors';
 import { Server as IOServer } from 'socket.io';
 import { RoomStore } from './services/RoomStore';
+import { FileRoomStorage, MemoryRoomStorage } from './services/RoomStorage';
 import { GameService } from './services/GameService';
 import path from 'node:path';
 import fs from 'node:fs';
+import crypto from 'node:crypto';
 import { WordValidatorStub, WordValidatorFile } from './services/WordValidator';
-import { ROOM_IDLE_CLEANUP_MS, ROOM_SWEEP_INTERVAL_MS, TURN_TICK_INTERVAL_MS } from './config/constants';
+import { getMultiLetterTiles, LANGUAGE, LANGUAGES, ROOM_IDLE_CLEANUP_MS, ROOM_SWEEP_INTERVAL_MS, TURN_TICK_INTERVAL_MS } from './config/constants';
+import type { Language } from './config/constants';
+import { DictionaryRegistry } from './services/DictionaryRegistry';
+import { defaultRoomSettings } from './services/RoomSettings';
 import { WebSocketServer } from './ws/WebSocketServer';
+import { BotService } from './services/BotService';
+import { ChatService } from './services/ChatService';
+import { MatchmakingService } from './services/MatchmakingService';
+import { RatingService } from './services/RatingService';
+import { CareerStatsService } from './services/CareerStatsService';
+import { GameRecorder } from './services/GameRecorder';
+import { ProfileStore } from './services/ProfileStore';
+import { SessionTokens } from './services/SessionTokens';
+import { FileProfileStorage, MemoryProfileStorage } from './services/ProfileStorage';
+import { createLeaderboardRouter, createPlayersRouter, createRoomsRouter } from './http/api';
 
 const PORT = Number(process.env.PORT || 4000);
 const CLIENT_ORIGIN = process.env.CLIENT_ORIGIN || '*';
@@ -33,58 +48,92 @@ const io = new IOServer(server, {
   cors: { origin: corsOriginParam() },
 });
 
-const roomStore = new RoomStore();
-// Try to load French ODS dictionary if available; fallback to stub otherwise
-function resolveDictionaryPath(): string | undefined {
-  const envPath = process.env.WORD_LIST_PATH;
-  if (envPath && fs.existsSync(envPath)) return envPath;
-  const candidate1 = path.resolve(__dirname, 'assets', 'French ODS dictionary.txt');
-  if (fs.existsSync(candidate1)) return candidate1;
-  const candidate2 = path.resolve(__dirname, '..', 'src', 'assets', 'French ODS dictionary.txt');
-  if (fs.existsSync(candidate2)) return candidate2;
-  return undefined;
+// Rooms survive restarts when ROOM_STORAGE_DIR points to a writable directory
+const roomStorage = process.env.ROOM_STORAGE_DIR ? new FileRoomStorage(process.env.ROOM_STORAGE_DIR) : new MemoryRoomStorage();
+const roomStore = new RoomStore(roomStorage);
+// Each language is paired with its word list: WORD_LIST_<LANG>, else assets/dictionaries/<lang>.txt
+// (the French ODS list keeps its historical name). WORD_LIST_PATH still sets the list of the
+// default language. Languages without a list can't be picked, except the default one,
+// which falls back to the stub validator.
+function resolveDictionaryPath(language: Language): string | undefined {
+  const candidates = [process.env[`WORD_LIST_${language}`], language === LANGUAGE ? process.env.WORD_LIST_PATH : undefined];
+  for (const assets of [path.resolve(__dirname, 'assets'), path.resolve(__dirname, '..', 'src', 'assets')]) {
+    candidates.push(path.join(assets, 'dictionaries', `${language.toLowerCase()}.txt`));
+    if (language === 'FR') candidates.push(path.join(assets, 'French ODS dictionary.txt'));
+  }
+  return candidates.find((p): p is string => !!p && fs.existsSync(p));
+}
+const dictionaries = new DictionaryRegistry();
+for (const language of LANGUAGES) {
+  const file = resolveDictionaryPath(language);
+  if (!file) continue;
+  dictionaries.register({ id: language.toLowerCase(), language, name: path.basename(file) }, () => new WordValidatorFile(file, getMultiLetterTiles(language)));
+}
+if (!dictionaries.defaultFor(LANGUAGE)) {
+  console.warn(`[dict] No dictionary file found for ${LANGUAGE}; using stub validator.`);
+  dictionaries.register({ id: 'stub', language: LANGUAGE, name: 'stub' }, () => new WordValidatorStub());
+}
+// More word lists rooms can pick: DICTIONARIES="id=LANG:/path/to/list.txt,..."
+for (const entry of (process.env.DICTIONARIES || '').split(',').map((s) => s.trim()).filter(Boolean)) {
+  const m = entry.match(/^([\w-]+)=([A-Z]{2}):(.+)$/);
+  if (!m || !LANGUAGES.includes(m[2] as Language)) {
+    console.warn(`[dict] Ignoring malformed DICTIONARIES entry: ${entry}`);
+    continue;
+  }
+  const [, id, lang, file] = m;
+  const language = lang as Language;
+  dictionaries.register({ id, language, name: path.basename(file) }, () => new WordValidatorFile(file, getMultiLetterTiles(language)));
 }
-const dictPath = resolveDictionaryPath();
-const validator = dictPath ? new WordValidatorFile(dictPath) : new WordValidatorStub();
-if (!dictPath) console.warn('[dict] No dictionary file found; using stub validator.');
-const gameService = new GameService(validator);
-const ws = new WebSocketServer(io, roomStore, gameService);
+// Load the default language's list now rather than in the middle of the first game
+dictionaries.get(dictionaries.defaultFor(LANGUAGE)!);
+roomStore.restore(defaultRoomSettings(dictionaries), dictionaries);
 
-// Turn timeout enforcement loop
-setInterval(async () => {
-  const now = Date.now();
-  for (const room of roomStore.listRooms()) {
-    if (room.status !== 'playing' || !room.game) continue;
-    if (now > room.game.turnEndsAt) {
-      // Force pass for active player
-      try {
-        await gameService.playMove(room, room.game.activePlayerId, 'pass');
-        // Broadcast state + turn update
-        io.to(room.id).emit('message', {
-          type: 'turnUpdate',
-          payload: { roomId: room.id, activePlayerId: room.game.activePlayerId, turnEndsAt: room.game.turnEndsAt, version: room.game.version },
-        });
-        // Personalized game state per player
-        // We reuse ws.broadcast of game state by creating a private method
-        // Quick re-broadcast by emitting roomUpdate and letting clients fetch gameState via next ticks
-        // But we have helper available:
-        // @ts-ignore access private method for internal tick
-        if (ws['broadcastGameState']) await ws['broadcastGameState'](room);
-      } catch (e) {
-        console.error('[turn] error forcing pass', e);
-      }
-    }
+// Player profiles and ratings persist when PROFILE_STORAGE_DIR points to a writable directory
+const profileStorage = process.env.PROFILE_STORAGE_DIR ? new FileProfileStorage(process.env.PROFILE_STORAGE_DIR) : new MemoryProfileStorage();
+const profileStore = new ProfileStore(profileStorage);
+profileStore.restore();
+const ratingService = new RatingService(profileStore);
+// Finished games go into the players' careers and ratings
+const gameService = new GameService(dictionaries, new GameRecorder(ratingService, new CareerStatsService(profileStore)));
+
+// Read-only room, game and results routes (GCG export included), leaderboards and profiles
+app.use('/rooms', createRoomsRouter(roomStore, gameService, ratingService));
+app.use('/leaderboards', createLeaderboardRouter(ratingService));
+app.use('/players', createPlayersRouter(profileStore));
+const botService = new BotService(gameService);
+// Words masked in chat: CHAT_FILTER_WORDS="a,b,c" and/or CHAT_FILTER_FILE (one word per line)
+const chatFilterWords = (process.env.CHAT_FILTER_WORDS || '').split(',');
+if (process.env.CHAT_FILTER_FILE) {
+  try {
+    chatFilterWords.push(...fs.readFileSync(process.env.CHAT_FILTER_FILE, 'utf8').split(/\r?\n/));
+  } catch (e: any) {
+    console.warn(`[chat] Could not read CHAT_FILTER_FILE: ${e?.message || e}`);
   }
+}
+const chatService = new ChatService(chatFilterWords);
+// Session tokens are signed with SESSION_SECRET; without it they don't survive a restart
+let sessionSecret = process.env.SESSION_SECRET;
+if (!sessionSecret) {
+  console.warn('[session] SESSION_SECRET not set; using a random secret, players cannot reconnect after a restart.');
+  sessionSecret = crypto.randomBytes(32).toString('hex');
+}
+const ws = new WebSocketServer(io, roomStore, gameService, botService, dictionaries, chatService, new MatchmakingService(),
+  profileStore, ratingService, new SessionTokens(sessionSecret));
+
+// Turn timeout enforcement loop
+setInterval(() => {
+  ws.tick(Date.now()).catch((e) => console.error('[turn] tick failed', e));
 }, TURN_TICK_INTERVAL_MS);
 
 // Room cleanup loop
 setInterval(() => {
   const now = Date.now();
   for (const room of roomStore.listRooms()) {
-    const anyConnected = room.players.some((p) => p.connected);
+    const anyConnected = room.players.some((p) => p.connected && !p.isBot);
     if (!anyConnected && now - room.lastActivityAt > ROOM_IDLE_CLEANUP_MS) {
       console.log(`[cleanup] deleting idle room ${room.id}`);
       roomStore.deleteRoom(room.id);
+      ws.forgetRoom(room.id);
     }
   }
 }, ROOM_SWEEP_INTERVAL_MS);
@@ -1,4 +1,5 @@
-import type { BonusType } from '../config/constants';
+import type { BotLevel, ChallengeRule, ErrorCode, GameMode, HintPolicy, Language, LEGACY_CHALLENGE_RULE, ProtocolFeature, RoomVisibility, TimeControlMode } from '../config/constants';
+import type { BoardLayout, BonusType } from '../config/boardLayouts';
 
 export type RoomStatus = 'waiting' | 'playing' | 'finished';
 
@@ -12,7 +13,7 @@ export interface PlayerStats {
 
 export interface Tile {
   id: string; // unique tile id
-  letter: string; // 'A'..'Z' or '' for joker
+  letter: string; // from the room language's tile set ('A', 'Ñ', 'CH'...), '' for joker
   value: number; // letter points
   isJoker: boolean;
 }
@@ -20,6 +21,7 @@ export interface Tile {
 export interface TileOnBoard extends Tile {
   fromPlayerId: string;
   turnPlayed: number;
+  assignedLetter?: string; // letter chosen for a joker, from the same tile set
 }
 
 export interface BoardCell {
@@ -34,16 +36,91 @@ export interface MovePlacement {
   x: number;
   y: number;
   tileId: string; // reference to tile in player's rack
+  assignedLetter?: string; // required when the tile is a joker
 }
 
+// 'withdraw': a play taken back after a successful challenge (playerId = who played it)
+// 'challengePenalty': a failed challenge (playerId = the challenger)
+// 'rackPenalty' / 'rackBonus': end-of-game adjustment for tiles left on racks
+// 'takeback': the player's previous move undone with the opponents' consent
+// 'timePenalty': end-of-game penalty for running over a chess clock
+export type MoveAction = 'play' | 'pass' | 'exchange' | 'withdraw' | 'challengePenalty' | 'rackPenalty' | 'rackBonus' | 'timePenalty' | 'takeback';
+
 export interface MoveSummary {
   playerId: string;
-  action: 'play' | 'pass' | 'exchange';
+  action: MoveAction;
   words: string[];
   score: number;
   placements: MovePlacement[];
   turnNumber: number;
   createdAt: number;
+  challengerId?: string; // set on 'withdraw' and 'challengePenalty'
+  // Letters on the player's rack before the move ('?' for jokers); for end-of-game
+  // adjustments, the letters counted. Private: stripped from what opponents receive live.
+  rack?: string;
+  exchanged?: string; // letters put back in the bag, private like `rack`
+  exchangedCount?: number; // how many tiles were put back, public
+  start?: { x: number; y: number; direction: 'row' | 'col' }; // first square of the main word
+  moveId?: string; // client-generated id of the request, so a retry is not played twice
+}
+
+// Result of GameService.previewMove
+export interface MovePreview {
+  valid: boolean;
+  error?: { code: string; reason?: string }; // what playMove would answer, e.g. INVALID_WORD with the word
+  words: Array<{ word: string; score: number; valid?: boolean }>; // main word first; `valid` if the room reveals it
+  bonuses: Array<{ x: number; y: number; bonus: BonusType }>; // bonus squares the play would use
+  bingo: boolean;
+  score: number; // total, bingo bonus included
+}
+
+// A legal play found by the move generator (hints, bots)
+export interface GeneratedMove {
+  placements: MovePlacement[];
+  direction: 'row' | 'col';
+  word: string; // main word, jokers in lowercase
+  words: string[]; // main word first, then cross words
+  score: number;
+  start: { x: number; y: number; direction: 'row' | 'col' }; // first square of the main word
+}
+
+// Snapshot: rows of the board ('.' for an empty square, lowercase for a joker),
+// racks per seat, and optionally scores and the seat to move
+export interface PositionSnapshot {
+  board: string[];
+  racks: string[];
+  scores?: number[];
+  toMove?: number;
+}
+
+// A play that stands tentatively while opponents may challenge it
+export interface PendingChallenge {
+  playerId: string;
+  move: MoveSummary;
+  drawnTileIds: string[]; // tiles drawn after the play, returned to the bag on withdrawal
+  words: string[]; // as checked against the dictionary (see utils/letters.ts)
+  previousStats: PlayerStats;
+  previousConsecutivePasses: number;
+  expiresAt: number; // ms epoch
+}
+
+// A player's last move as it can be undone (see GameService.respondTakeback)
+export interface TakebackPoint {
+  playerId: string;
+  move: MoveSummary;
+  logLength: number; // log length right after the move; anything logged since rules it out
+  rack: Tile[]; // before the move
+  score: number;
+  stats: PlayerStats;
+  consecutivePasses: number;
+  turnIndex: number;
+  lostTurnPlayerIds: string[];
+}
+
+export interface TakebackRequest {
+  playerId: string;
+  acceptedBy: string[]; // opponents who agreed so far; bots always do
+  expiresAt: number; // ms epoch
 }
 
 export interface Player {
@@ -55,29 +132,136 @@ export interface Player {
   rack: Tile[];
   stats: PlayerStats;
   connectionId?: string; // socket id
+  isBot?: boolean; // computer opponent, always connected and ready
+  botLevel?: BotLevel;
+  clockMs?: number; // chess clock only: time left when their turn started, negative in overtime
+}
+
+// Watches a room without a seat; never sees racks unless the room allows it
+export interface Spectator {
+  id: string;
+  nickname: string;
+  connectionId?: string; // socket id
+  chatKey: string; // what mutes and chat limits hold on to: the session's playerId, else `id`
+  joinedAt: number;
+}
+
+// Duplicate mode: one play per player per round, scored but never placed
+export interface DuplicateSubmission {
+  placements: MovePlacement[]; // empty when the player gave up the round
+  words: string[];
+  score: number;
+  submittedAt: number;
+  moveId?: string; // client-generated, see MoveSummary
+}
+
+export interface DuplicateState {
+  round: number; // 1-based
+  rack: Tile[]; // the rack every player gets this round
+  submissions: Record<string, DuplicateSubmission>; // by playerId, latest submission wins
+  topTotal: number; // sum of the top play of every finished round
 }
 
 export interface GameState {
+  layout: string; // board layout id, see config/boardLayouts.ts
   board: BoardCell[][];
   bag: Tile[];
   turnIndex: number; // index in room.players
   activePlayerId: string;
   turnEndsAt: number; // ms epoch
   turnDurationMs: number; // e.g., 180000
+  turnStartedAt: number; // ms epoch, chess clocks are charged from here
   lastMove?: MoveSummary;
   log: MoveSummary[];
   consecutivePasses: number;
   startedAt: number;
   version: number;
+  pendingChallenge?: PendingChallenge;
+  lostTurnPlayerIds: string[]; // players skipped on their next turn (failed double challenge)
+  duplicate?: DuplicateState; // duplicate mode only; activePlayerId is '' and turnEndsAt ends the round
+  hintsUsed: Record<string, number>; // hint requests per playerId, for the 'limited' policy
+  takebackPoint?: TakebackPoint; // the last play, pass or exchange
+  takebackRequest?: TakebackRequest;
+  forfeited?: ForfeitedPlayer[]; // left while the game was running, in leaving order
+  recordedAt?: number; // when the result went into the players' profiles
+  ratingChanges?: Record<string, RatingChange>; // rated games only
+}
+
+// A player who left a running game, as they stood when leaving; they rank below everyone
+// who stayed
+export interface ForfeitedPlayer {
+  id: string;
+  nickname: string;
+  isBot?: boolean;
+  score: number;
+  stats: PlayerStats;
+}
+
+export interface TimeControl {
+  mode: TimeControlMode;
+  initialMs: number; // chess clock bank per player (unused per turn)
+  incrementMs: number; // added after each move with 'chessClockIncrement'
+}
+
+// A word list rooms can pick, see DictionaryRegistry
+export interface DictionaryInfo {
+  id: string;
+  language: Language;
+  name: string;
+}
+
+// Game rules of a room, editable by the host while it is waiting (see RoomSettings.ts)
+export interface RoomSettings {
+  language: Language; // letter distribution
+  dictionary: string; // id in the server's dictionary registry, same language
+  turnDurationMs: number; // per-turn time control
+  maxConsecutivePasses: number; // the game ends after this many passes/exchanges in a row
+  bingoBonus: number; // for playing all 7 tiles
+  hintPolicy: HintPolicy;
+  hintsPerPlayer: number; // with the 'limited' policy
+  maxPlayers: number; // 1..4
+  boardLayout: string; // see config/boardLayouts.ts
+  previewWordCheck: boolean; // move previews tell whether the words are in the dictionary
+  allowTakebacks: boolean;
+  rated: boolean; // results update ratings; no bots, imports or takebacks
+}
+
+// Options chosen by the host when creating a room
+export interface RoomOptions {
+  mode?: GameMode;
+  timeControl?: TimeControl;
+  challengeRule?: ChallengeRule;
+  spectatorRackDelayMs?: number | null;
+  visibility?: RoomVisibility;
+}
+
+// Players chat on 'players'; spectators on 'spectators', which players only see outside a game
+export type ChatChannel = 'players' | 'spectators';
+
+export interface ChatMessage {
+  id: string;
+  channel: ChatChannel;
+  senderId: string | null; // null for system messages (joins, leaves, host changes...)
+  nickname: string;
+  text: string;
+  sentAt: number; // ms epoch
 }
 
 export interface Room {
   id: string; // code like 'ABCD'
   hostId: string;
   status: RoomStatus;
-  maxPlayers: number; // 1..4
+  settings: RoomSettings;
+  mode: GameMode;
+  timeControl: TimeControl;
+  challengeRule: ChallengeRule;
+  spectatorRackDelayMs: number | null; // racks shown to spectators this long after the fact; null = never
   players: Player[];
+  spectators: Spectator[];
   game?: GameState;
+  visibility: RoomVisibility;
+  chat: ChatMessage[]; // the last CHAT_HISTORY_SIZE messages
+  mutedKeys: string[]; // muted by the host: player ids and spectator chat keys
   lastActivityAt: number;
 }
 
@@ -89,14 +273,32 @@ export interface PlayerSummary {
   ready: boolean;
   host?: boolean;
   score: number;
+  isBot?: boolean;
+  botLevel?: BotLevel;
+  rating?: number; // rated pool of the room (language and time control), rounded; humans only
+  provisional?: boolean; // fewer than RATING_PROVISIONAL_GAMES rated games in that pool
 }
 
 export interface RoomSummary {
   id: string;
   hostId: string;
   status: RoomStatus;
-  maxPlayers: number;
+  settings: RoomSettings;
+  maxPlayers: number; // deprecated, mirrors settings.maxPlayers for older clients
+  hintsEnabled: boolean; // deprecated, settings.hintPolicy !== 'off'
+  mode: GameMode;
+  timeControl: TimeControl;
+  challengeRule: ChallengeRule;
+  spectatorRackDelayMs: number | null;
   players: PlayerSummary[];
+  spectators: SpectatorSummary[];
+  visibility: RoomVisibility;
+  mutedIds: string[]; // players and spectators in the room now who are muted
+}
+
+export interface SpectatorSummary {
+  id: string;
+  nickname: string;
 }
 
 export interface BoardCellSummary {
@@ -113,17 +315,353 @@ export interface GameTileSummary {
 
 export interface GameStateSummary {
   board: BoardCellSummary[][];
-  myRack: GameTileSummary[]; // only for the requesting player
+  myRack: GameTileSummary[]; // only for the requesting player (empty for spectators)
+  racksByPlayer?: Record<string, GameTileSummary[]>; // spectators only, when the room reveals racks
   scoresByPlayer: Record<string, number>;
   activePlayerId: string;
   turnEndsAt: number;
   turnDurationMs: number;
   bagCount: number;
-  log: Array<{ playerId: string; action: 'play'|'pass'|'exchange'; summary: string }>;
+  log: Array<{ playerId: string; action: MoveAction; summary: string }>;
+  pendingChallenge?: { playerId: string; words: string[]; expiresAt: number };
+  takebackRequest?: TakebackRequest;
+  // Chess clock only: time left for every player as of this state, negative in overtime
+  clocks?: Record<string, { remainingMs: number; running: boolean }>;
+  duplicate?: {
+    round: number;
+    submittedPlayerIds: string[];
+    topTotal: number;
+    percentByPlayer: Record<string, number>; // share of the top total each player has scored
+    mySubmission?: { words: string[]; score: number };
+  };
   version: number;
 }
 
-export interface Envelope {
-  type: string;
-  payload: any;
+// Final standings of a finished game (gameEnded event, HTTP results)
+export interface GameResults {
+  roomId: string;
+  mode: GameMode;
+  language: Language;
+  startedAt: number;
+  players: Array<{ id: string; nickname: string; isBot?: boolean; forfeited?: boolean }>; // forfeited players last
+  scores: Record<string, number>;
+  statsByPlayer: Record<string, PlayerStats>;
+  winnerIds: string[];
+  percentByPlayer?: Record<string, number>; // duplicate games only
+  ratingChanges?: Record<string, RatingChange>; // rated games only
+}
+
+// Glicko-2 rating in one pool, e.g. 'FR:perTurn' (see RatingService.ratingPool)
+export interface PlayerRating {
+  rating: number;
+  rd: number;
+  volatility: number;
+  games: number;
+  updatedAt: number;
+}
+
+// Totals over every finished game of a player, see CareerStatsService
+export interface CareerStats {
+  gamesPlayed: number;
+  gamesWon: number; // ties for first count as wins
+  totalScore: number; // final scores added up
+  highestGameScore: number;
+  moves: number; // plays, exchanges and passes that stood
+  plays: number;
+  totalPlayScore: number;
+  bingos: number;
+  exchanges: number;
+  timedMoves: number; // moves whose thinking time is known
+  totalMoveTimeMs: number;
+  bestMove: BestMove | null;
+  wordCounts: Record<string, number>; // main words played, by word
+}
+
+export interface BestMove {
+  roomId: string;
+  playedAt: number;
+  score: number;
+  words: string[];
+  start?: MoveSummary['start'];
+  board: string[]; // rows right after the move: '.' empty, lowercase for a joker (GameImporter snapshot form)
 }
+
+// What the server keeps about a playerId across rooms
+export interface PlayerProfile {
+  playerId: string;
+  nickname: string; // the last one used in a finished game
+  ratings: Record<string, PlayerRating>;
+  career: CareerStats;
+  createdAt: number;
+}
+
+// A profile as clients get it (getProfile, GET /players/:playerId)
+export interface ProfileSummary {
+  playerId: string;
+  nickname: string;
+  createdAt: number;
+  ratings: Record<string, { rating: number; rd: number; games: number; provisional: boolean }>;
+  career: {
+    gamesPlayed: number;
+    gamesWon: number;
+    winRate: number; // 0..1
+    averageScore: number; // per game
+    averageMoveScore: number; // per play
+    highestGameScore: number;
+    bingos: number;
+    bingoRate: number; // bingos per play
+    exchangeRate: number; // exchanges per move
+    averageMoveTimeMs: number | null;
+    bestMove: BestMove | null;
+    mostPlayedWords: Array<{ word: string; count: number }>;
+  };
+}
+
+export interface RatingChange {
+  before: number;
+  after: number;
+  rd: number;
+}
+
+// WebSocket protocol: every message is { type, payload } on the 'message' event. Clients may
+// add a `requestId`; the server echoes it on the error and the direct replies to that message.
+// Inbound messages are checked against ws/validation.ts before reaching a handler.
+
+export type RequestId = string | number;
+
+// First message of a client: the newest protocol version it speaks and, if it can still
+// speak older ones, the oldest. Features the server lacks are only fatal when required.
+export interface HelloPayload {
+  version: number;
+  minVersion?: number;
+  features?: string[];
+  requiredFeatures?: string[];
+}
+
+// The answer to hello: the version the connection speaks from now on, and what the server has
+export interface WelcomePayload {
+  version: number;
+  serverVersion: number;
+  minVersion: number; // oldest version the server still speaks
+  features: ProtocolFeature[]; // offered by the server and handled by the client
+  serverFeatures: ProtocolFeature[];
+  languages: Language[]; // languages with a dictionary, the ones rooms can be created in
+  dictionaries: DictionaryInfo[];
+  boardLayouts: BoardLayout[];
+}
+
+// What the server keeps on each connection (socket.data)
+export interface SocketData {
+  protocolVersion: number; // PROTOCOL_LEGACY_VERSION until a hello
+  features: ProtocolFeature[]; // features the client handles, none until a hello
+  playerId?: string; // seat taken last
+  spectatorId?: string;
+}
+
+// A requested time control; missing fields take the defaults (see parseTimeControl)
+export interface TimeControlRequest {
+  mode?: TimeControlMode;
+  initialMs?: number;
+  incrementMs?: number;
+}
+
+// `token` is the session token from a `session` message; without it a new playerId is made
+export interface CreateRoomPayload {
+  nickname: string;
+  settings?: Partial<RoomSettings>;
+  maxPlayers?: number; // legacy, see settings.maxPlayers
+  hintsEnabled?: boolean; // legacy, see settings.hintPolicy
+  mode?: GameMode;
+  timeControl?: TimeControlRequest;
+  challengeRule?: ChallengeRule | typeof LEGACY_CHALLENGE_RULE;
+  spectatorRackDelayMs?: number | null;
+  visibility?: RoomVisibility;
+  token?: string;
+}
+
+export interface JoinRoomPayload {
+  roomId: string;
+  nickname: string;
+  token?: string;
+}
+
+export interface SpectateRoomPayload {
+  roomId: string;
+  nickname: string;
+}
+
+export interface QuickMatchPayload {
+  nickname: string;
+  language?: Language;
+  timeControl?: TimeControlRequest;
+  tableSize?: number;
+  token?: string;
+}
+
+export interface ReconnectPayload {
+  lastRoomId: string;
+  playerId?: string; // must match the token when given
+  token?: string;
+}
+
+export interface RoomPayload {
+  roomId: string;
+  token?: string; // startGame only, to take back the host seat
+}
+
+export interface UpdateSettingsPayload {
+  roomId: string;
+  settings: Partial<RoomSettings>;
+}
+
+export interface ToggleReadyPayload {
+  roomId: string;
+  ready: boolean;
+  token?: string;
+}
+
+export interface AddBotPayload {
+  roomId: string;
+  level?: BotLevel;
+}
+
+export interface RemoveBotPayload {
+  roomId: string;
+  botId: string;
+}
+
+export interface ImportGamePayload {
+  roomId: string;
+  format: 'gcg' | 'position';
+  content?: string; // 'gcg'
+  position?: PositionSnapshot; // 'position'
+}
+
+export interface PlayMovePayload {
+  roomId: string;
+  action: 'play' | 'pass' | 'exchange';
+  placements?: MovePlacement[];
+  tileIdsToExchange?: string[];
+  expectedVersion?: number;
+  moveId?: string;
+}
+
+export interface PreviewMovePayload {
+  roomId: string;
+  placements: MovePlacement[];
+}
+
+export interface RespondTakebackPayload {
+  roomId: string;
+  accept: boolean;
+}
+
+export interface RequestHintPayload {
+  roomId: string;
+  count?: number;
+}
+
+export interface ChatMessagePayload {
+  roomId: string;
+  text: string;
+}
+
+export interface MuteChatPayload {
+  roomId: string;
+  targetId: string;
+  muted?: boolean;
+}
+
+export interface GetProfilePayload {
+  playerId: string;
+}
+
+type Inbound<T extends string, P> = { type: T; payload: P; requestId?: RequestId };
+
+export type ClientMessage =
+  | Inbound<'hello', HelloPayload>
+  | Inbound<'createRoom', CreateRoomPayload>
+  | Inbound<'joinRoom', JoinRoomPayload>
+  | Inbound<'subscribeLobby', {}>
+  | Inbound<'unsubscribeLobby', {}>
+  | Inbound<'quickMatch', QuickMatchPayload>
+  | Inbound<'cancelQuickMatch', {}>
+  | Inbound<'spectateRoom', SpectateRoomPayload>
+  | Inbound<'reconnect', ReconnectPayload>
+  | Inbound<'updateSettings', UpdateSettingsPayload>
+  | Inbound<'toggleReady', ToggleReadyPayload>
+  | Inbound<'addBot', AddBotPayload>
+  | Inbound<'removeBot', RemoveBotPayload>
+  | Inbound<'startGame', RoomPayload>
+  | Inbound<'importGame', ImportGamePayload>
+  | Inbound<'playMove', PlayMovePayload>
+  | Inbound<'previewMove', PreviewMovePayload>
+  | Inbound<'challenge', RoomPayload>
+  | Inbound<'requestTakeback', RoomPayload>
+  | Inbound<'respondTakeback', RespondTakebackPayload>
+  | Inbound<'requestHint', RequestHintPayload>
+  | Inbound<'exportGame', RoomPayload>
+  | Inbound<'chatMessage', ChatMessagePayload>
+  | Inbound<'muteChat', MuteChatPayload>
+  | Inbound<'getProfile', GetProfilePayload>
+  | Inbound<'leaveRoom', RoomPayload>;
+
+export type ClientMessageType = ClientMessage['type'];
+
+// `path` points at the offending field for BAD_PAYLOAD and INVALID_SETTINGS, e.g.
+// 'payload.placements[2].x'; `reason` is a detail from the rules (the invalid word...)
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  path?: string;
+  reason?: string;
+  roomId?: string;
+  moveId?: string; // STALE_STATE
+  gameState?: GameStateSummary; // STALE_STATE: the state the move missed
+  supportedVersions?: { min: number; max: number }; // UPGRADE_REQUIRED
+  missingFeatures?: string[]; // UPGRADE_REQUIRED: required by the client, unknown to the server
+}
+
+export interface TurnUpdate {
+  roomId: string;
+  activePlayerId: string;
+  turnEndsAt: number;
+  version: number;
+}
+
+type Outbound<T extends string, P> = { type: T; payload: P; requestId?: RequestId };
+
+export type ServerMessage =
+  | Outbound<'welcome', WelcomePayload>
+  | Outbound<'error', ErrorPayload>
+  | Outbound<'session', { roomId: string; playerId: string; token: string }>
+  | Outbound<'sessionReplaced', { roomId: string; message: string }>
+  | Outbound<'fullState', { room: RoomSummary; layout: BoardLayout; gameState?: GameStateSummary; chat: ChatMessage[]; spectatorId?: string }>
+  | Outbound<'roomUpdate', { room: RoomSummary }>
+  | Outbound<'lobby', { rooms: RoomSummary[] }>
+  | Outbound<'quickMatchQueued', { language: Language; timeControl: TimeControl; tableSize: number; waiting: number; expiresAt: number }>
+  | Outbound<'quickMatchFound', { roomId: string; playerId: string }>
+  | Outbound<'quickMatchCancelled', {}>
+  | Outbound<'gameState', { roomId: string; gameState: GameStateSummary }>
+  | Outbound<'turnUpdate', TurnUpdate>
+  | Outbound<'moveAccepted', { roomId: string; move: MoveSummary; replayed?: boolean }>
+  | Outbound<'invalidMove', { roomId: string; code: ErrorCode; reason: string; moveId?: string }>
+  | Outbound<'submissionAccepted', { roomId: string; round: number; words: string[]; score: number; moveId?: string; replayed?: boolean }>
+  | Outbound<'duplicateProgress', { roomId: string; round: number; submittedPlayerIds: string[] }>
+  | Outbound<'roundEnded', {
+      roomId: string;
+      round: number;
+      move?: MoveSummary;
+      results: Array<{ playerId: string; words: string[]; score: number; top: boolean }>;
+      standings: Record<string, number>;
+    }>
+  | Outbound<'challengeResult', { roomId: string; move: MoveSummary; withdrawn: boolean; invalidWords: string[] }>
+  | Outbound<'takebackRequested', { roomId: string } & Partial<TakebackRequest>>
+  | Outbound<'takebackDeclined', { roomId: string; playerId: string; declinedBy?: string; reason?: 'TIMEOUT' }>
+  | Outbound<'takebackAccepted', { roomId: string; move: MoveSummary }>
+  | Outbound<'hint', { roomId: string; moves: GeneratedMove[]; hintsLeft?: number; version: number }>
+  | Outbound<'movePreview', { roomId: string; placements: MovePlacement[]; version?: number } & MovePreview>
+  | Outbound<'gameExport', { roomId: string; format: 'gcg'; content: string }>
+  | Outbound<'chatMessage', { roomId: string; message: ChatMessage }>
+  | Outbound<'gameEnded', GameResults>
+  | Outbound<'profile', { profile: ProfileSummary }>;
@@ -0,0 +1,82 @@
+import { BOT_THINK_MAX_MS, BOT_THINK_MIN_MS, getVowels } from '../config/constants';
+import type { GeneratedMove, MovePlacement, Player, Room, Tile } from '../models/types';
+import type { GameService } from './GameService';
+
+export interface BotAction {
+  action: 'play' | 'pass' | 'exchange';
+  placements?: MovePlacement[];
+  tileIdsToExchange?: string[];
+}
+
+// Picks moves for computer opponents. Moves are still played through
+// GameService.playMove by the caller, exactly like a human's.
+export class BotService {
+  constructor(private game: GameService) {}
+
+  // Random pause before a bot acts so it doesn't answer instantly
+  thinkDelayMs(): number {
+    return BOT_THINK_MIN_MS + Math.floor(Math.random() * (BOT_THINK_MAX_MS - BOT_THINK_MIN_MS));
+  }
+
+  chooseAction(room: Room, bot: Player): BotAction {
+    const game = room.game;
+    if (!game) return { action: 'pass' };
+    let moves: GeneratedMove[] = [];
+    try {
+      moves = this.game.findMoves(room, bot.id, Number.POSITIVE_INFINITY);
+    } catch (e) {
+      moves = [];
+    }
+    if (moves.length === 0) return this.fallback(room, bot);
+
+    switch (bot.botLevel) {
+      case 'random':
+        return { action: 'play', placements: moves[Math.floor(Math.random() * moves.length)].placements };
+      case 'strategic': {
+        const vowels = new Set(getVowels(room.settings.language));
+        let best = moves[0];
+        let bestEquity = -Infinity;
+        for (const m of moves) {
+          const usedIds = new Set(m.placements.map((p) => p.tileId));
+          const equity = m.score + rackLeaveValue(bot.rack.filter((t) => !usedIds.has(t.id)), vowels);
+          if (equity > bestEquity) { best = m; bestEquity = equity; }
+        }
+        return { action: 'play', placements: best.placements };
+      }
+      default: // 'greedy'
+        return { action: 'play', placements: moves[0].placements };
+    }
+  }
+
+  // No play found: swap the worst tiles if the bag allows it, otherwise pass
+  private fallback(room: Room, bot: Player): BotAction {
+    const bagCount = room.game?.bag.length || 0;
+    if (bagCount < 7 || bot.rack.length === 0) return { action: 'pass' };
+    const keep = new Set(bot.rack.filter((t) => t.isJoker || t.letter === 'S').map((t) => t.id));
+    const ids = bot.rack.filter((t) => !keep.has(t.id)).map((t) => t.id);
+    if (ids.length === 0) return { action: 'pass' };
+    return { action: 'exchange', tileIdsToExchange: ids };
+  }
+}
+
+// Rough value of the tiles left on the rack: jokers and S help the next move,
+// duplicates and a vowel/consonant imbalance (by the language's `vowels`) hurt it.
+export function rackLeaveValue(leave: Tile[], vowels: Set<string>): number {
+  let value = 0;
+  let vowelCount = 0;
+  let consonants = 0;
+  const seen = new Map<string, number>();
+  for (const t of leave) {
+    if (t.isJoker) { value += 8; continue; }
+    const L = t.letter.toUpperCase();
+    if (L === 'S') value += 3;
+    if (vowels.has(L)) vowelCount++; else consonants++;
+    // High-value letters are hard to place later
+    if (t.value >= 8) value -= 3;
+    const n = (seen.get(L) || 0) + 1;
+    seen.set(L, n);
+    if (n > 1) value -= 3;
+  }
+  value -= 2 * Math.max(0, Math.abs(vowelCount - consonants) - 1);
+  return value;
+}
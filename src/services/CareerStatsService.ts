@@ -0,0 +1,105 @@
+import type { CareerStats, GameState, MoveSummary, Room } from '../models/types';
+import type { ProfileStore } from './ProfileStore';
+
+export function emptyCareerStats(): CareerStats {
+  return {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    totalScore: 0,
+    highestGameScore: 0,
+    moves: 0,
+    plays: 0,
+    totalPlayScore: 0,
+    bingos: 0,
+    exchanges: 0,
+    timedMoves: 0,
+    totalMoveTimeMs: 0,
+    bestMove: null,
+    wordCounts: {},
+  };
+}
+
+interface StandingMove {
+  move: MoveSummary;
+  index: number; // in game.log
+  thinkingMs?: number;
+}
+
+// Adds each finished game to the career of its human players, from the game log, those
+// who forfeited included (never as winners). Duplicate games only log the top plays,
+// credited to whoever found them first.
+export class CareerStatsService {
+  constructor(private profiles: ProfileStore) {}
+
+  recordGame(room: Room) {
+    const game = room.game;
+    if (!game) return;
+    const best = Math.max(...room.players.map((p) => p.score));
+    const moves = standingMoves(game);
+    const forfeited = game.forfeited || [];
+    for (const p of [...room.players, ...forfeited]) {
+      if (p.isBot) continue;
+      const profile = this.profiles.profileFor(p.id, p.nickname);
+      const career = profile.career;
+      career.gamesPlayed += 1;
+      if (p.score === best && !forfeited.includes(p)) career.gamesWon += 1;
+      career.totalScore += p.score;
+      career.highestGameScore = Math.max(career.highestGameScore, p.score);
+      for (const { move, index, thinkingMs } of moves) {
+        if (move.playerId !== p.id) continue;
+        career.moves += 1;
+        if (thinkingMs !== undefined) {
+          career.timedMoves += 1;
+          career.totalMoveTimeMs += thinkingMs;
+        }
+        if (move.action === 'exchange') career.exchanges += 1;
+        if (move.action !== 'play') continue;
+        career.plays += 1;
+        career.totalPlayScore += move.score;
+        if (move.placements.length === 7) career.bingos += 1;
+        const word = (move.words[0] || '').toUpperCase();
+        if (word) career.wordCounts[word] = (career.wordCounts[word] || 0) + 1;
+        if (!career.bestMove || move.score > career.bestMove.score) {
+          career.bestMove = { roomId: room.id, playedAt: move.createdAt, score: move.score, words: move.words, start: move.start, board: boardAfter(game, index) };
+        }
+      }
+      this.profiles.saveProfile(profile);
+    }
+  }
+}
+
+// Plays, passes and exchanges that stood: a withdrawn phony or a taken back move is
+// dropped with its undoing. Thinking time runs from the previous log entry.
+function standingMoves(game: GameState): StandingMove[] {
+  const out: StandingMove[] = [];
+  game.log.forEach((move, index) => {
+    if (move.action === 'withdraw' || move.action === 'takeback') {
+      const undone = out.map((m) => m.move.playerId).lastIndexOf(move.playerId);
+      if (undone >= 0) out.splice(undone, 1);
+      return;
+    }
+    if (move.action !== 'play' && move.action !== 'pass' && move.action !== 'exchange') return;
+    const since = index > 0 ? game.log[index - 1].createdAt : game.startedAt;
+    out.push({ move, index, thinkingMs: game.duplicate ? undefined : Math.max(0, move.createdAt - since) });
+  });
+  return out;
+}
+
+// The board right after log entry `index`: the final board without the tiles played later
+function boardAfter(game: GameState, index: number): string[] {
+  const later = new Set<string>();
+  for (const m of game.log.slice(index + 1)) if (m.action === 'play') for (const pl of m.placements) later.add(pl.tileId);
+  return game.board.map((row) =>
+    row
+      .map((c) => {
+        if (!c.tile || later.has(c.tile.id)) return '.';
+        return c.tile.isJoker ? (c.tile.assignedLetter || '?').toLowerCase() : c.tile.letter;
+      })
+      .join(''),
+  );
+}
+
+export function topWords(counts: Record<string, number>, n: number): Record<string, number> {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  return Object.fromEntries(entries.slice(0, n));
+}
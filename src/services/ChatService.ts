@@ -0,0 +1,59 @@
+import { CHAT_HISTORY_SIZE, CHAT_MAX_LENGTH, CHAT_RATE_LIMIT, CHAT_RATE_WINDOW_MS } from '../config/constants';
+import type { ChatChannel, ChatMessage, Room } from '../models/types';
+import { randomId } from '../utils/id';
+
+// Room chat. Messages are checked (length, mute, rate limit), filtered and kept in the
+// room's bounded history; the caller sends them to whoever may read them.
+export class ChatService {
+  // Recent send times per `${roomId}:${chatKey}`
+  private sent = new Map<string, number[]>();
+  private filter: RegExp | null;
+
+  // `bannedWords` are masked with asterisks, as whole words and regardless of case
+  constructor(bannedWords: string[] = [], private now: () => number = () => Date.now()) {
+    const words = bannedWords.map((w) => w.trim()).filter(Boolean).map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.filter = words.length > 0 ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join('|')})(?![\\p{L}\\p{N}])`, 'giu') : null;
+  }
+
+  // Mutes and rate limits go by the sender's chat key: a player's id, or for a spectator
+  // the player their session proves them to be, else their spectator id
+  post(room: Room, sender: { id: string; nickname: string; chatKey?: string }, channel: ChatChannel, text: unknown): ChatMessage {
+    if (typeof text !== 'string' || !text.trim()) throw new Error('CHAT_EMPTY');
+    const trimmed = text.trim();
+    if (trimmed.length > CHAT_MAX_LENGTH) throw new Error('CHAT_TOO_LONG');
+    const chatKey = sender.chatKey ?? sender.id;
+    if (room.mutedKeys.includes(chatKey)) throw new Error('CHAT_MUTED');
+    const key = `${room.id}:${chatKey}`;
+    const now = this.now();
+    const recent = (this.sent.get(key) || []).filter((t) => now - t < CHAT_RATE_WINDOW_MS);
+    if (recent.length >= CHAT_RATE_LIMIT) throw new Error('CHAT_RATE_LIMITED');
+    recent.push(now);
+    this.sent.set(key, recent);
+    const masked = this.filter ? trimmed.replace(this.filter, (w) => '*'.repeat(w.length)) : trimmed;
+    return this.append(room, { id: randomId(10), channel, senderId: sender.id, nickname: sender.nickname, text: masked, sentAt: now });
+  }
+
+  // Joins, leaves, host changes...
+  system(room: Room, text: string, channel: ChatChannel = 'players'): ChatMessage {
+    return this.append(room, { id: randomId(10), channel, senderId: null, nickname: '', text, sentAt: this.now() });
+  }
+
+  // Spectators read both channels; players see the spectators' only outside a game
+  canRead(room: Room, message: ChatMessage, spectator: boolean): boolean {
+    return spectator || message.channel === 'players' || room.status !== 'playing';
+  }
+
+  history(room: Room, spectator: boolean): ChatMessage[] {
+    return room.chat.filter((m) => this.canRead(room, m, spectator));
+  }
+
+  forgetRoom(roomId: string) {
+    for (const key of this.sent.keys()) if (key.startsWith(`${roomId}:`)) this.sent.delete(key);
+  }
+
+  private append(room: Room, message: ChatMessage): ChatMessage {
+    room.chat.push(message);
+    if (room.chat.length > CHAT_HISTORY_SIZE) room.chat.splice(0, room.chat.length - CHAT_HISTORY_SIZE);
+    return message;
+  }
+}
@@ -0,0 +1,33 @@
+import type { Language } from '../config/constants';
+import type { DictionaryInfo } from '../models/types';
+import type { WordValidator } from './WordValidator';
+
+// Word lists the server can check words against, by id. Rooms pick one matching their
+// language. A validator is only created the first time a room needs it.
+export class DictionaryRegistry {
+  private entries = new Map<string, { info: DictionaryInfo; load: () => WordValidator; validator?: WordValidator }>();
+
+  register(info: DictionaryInfo, load: () => WordValidator) {
+    this.entries.set(info.id, { info, load });
+  }
+
+  info(id: string): DictionaryInfo | undefined {
+    return this.entries.get(id)?.info;
+  }
+
+  list(): DictionaryInfo[] {
+    return Array.from(this.entries.values(), (e) => e.info);
+  }
+
+  // First dictionary registered for a language
+  defaultFor(language: Language): string | undefined {
+    return this.list().find((d) => d.language === language)?.id;
+  }
+
+  get(id: string): WordValidator {
+    const entry = this.entries.get(id);
+    if (!entry) throw new Error('UNKNOWN_DICTIONARY');
+    if (!entry.validator) entry.validator = entry.load();
+    return entry.validator;
+  }
+}
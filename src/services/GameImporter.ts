@@ -0,0 +1,195 @@
+import type { MoveAction, MoveSummary, PositionSnapshot } from '../models/types';
+import { getMultiLetterTiles } from '../config/constants';
+import type { Language } from '../config/constants';
+import { splitTiles } from '../utils/letters';
+
+// Parsers turning a GCG file or a board/rack snapshot into a position that
+// GameService.startFromPosition can resume. Players are referred to by seat index,
+// in the order of room.players. Words, rows and racks are split into the language's
+// tiles, longest first, so Spanish 'CH' is one tile.
+
+export interface ImportedTile {
+  x: number;
+  y: number;
+  letter: string; // uppercase tile letter; for a joker, the letter it stands for
+  isJoker: boolean;
+  seat?: number; // who played it, when known
+}
+
+export interface ImportedMove {
+  seat: number;
+  action: MoveAction;
+  score: number;
+  words: string[];
+  tiles: ImportedTile[]; // tiles laid by a play
+  rack?: string;
+  exchanged?: string;
+  exchangedCount?: number;
+  start?: MoveSummary['start'];
+}
+
+export interface ImportedPosition {
+  seats: number; // players the position is for
+  tiles: ImportedTile[];
+  racks: Array<string[] | undefined>; // tiles per seat, '?' for jokers; drawn from the bag when missing
+  scores: number[];
+  moves: ImportedMove[];
+  toMove: number; // seat whose turn it is
+}
+
+export function parseSnapshot(snapshot: PositionSnapshot, size: number, language: Language): ImportedPosition {
+  if (!snapshot || !Array.isArray(snapshot.board) || !Array.isArray(snapshot.racks)) throw new Error('IMPORT_BAD_SNAPSHOT');
+  const multi = getMultiLetterTiles(language);
+  const rows = snapshot.board.map((row) => (typeof row === 'string' ? splitTiles(row, multi) : []));
+  if (rows.length !== size || rows.some((row) => row.length !== size)) {
+    throw new Error('IMPORT_BAD_BOARD_SIZE');
+  }
+  const tiles: ImportedTile[] = [];
+  rows.forEach((row, y) => {
+    for (let x = 0; x < size; x++) {
+      const ch = row[x];
+      if (ch === '.' || ch === ' ') continue;
+      if (!isLetter(ch)) throw new Error('IMPORT_BAD_LETTER');
+      tiles.push({ x, y, letter: ch.toUpperCase(), isJoker: ch !== ch.toUpperCase() });
+    }
+  });
+  const seats = snapshot.racks.length;
+  const racks = snapshot.racks.map((r) => splitTiles(String(r || '').toUpperCase(), multi));
+  if (racks.some((rack) => rack.length > 7)) throw new Error('IMPORT_BAD_SNAPSHOT');
+  // Scores and the seat to move may be left out, but must be whole numbers when given
+  const integer = (value: unknown) => {
+    if (value === undefined || value === null) return 0;
+    if (!Number.isInteger(value)) throw new Error('IMPORT_BAD_SNAPSHOT');
+    return value as number;
+  };
+  const scores = Array.from({ length: seats }, (_, i) => integer(snapshot.scores?.[i]));
+  const toMove = integer(snapshot.toMove);
+  if (toMove < 0 || toMove >= seats) throw new Error('IMPORT_BAD_SEAT');
+  return { seats, tiles, racks, scores, moves: [], toMove };
+}
+
+export function parseGcg(text: string, size: number, language: Language): ImportedPosition {
+  const multi = getMultiLetterTiles(language);
+  const seatByName = new Map<string, number>();
+  const finalRacks: Array<string[] | undefined> = [];
+  const board = new Map<string, ImportedTile>();
+  const moves: ImportedMove[] = [];
+  const scores: number[] = [];
+  let toMove = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    let m: RegExpMatchArray | null;
+    if ((m = line.match(/^#player(\d+)\s+(\S+)/))) {
+      seatByName.set(m[2], Number(m[1]) - 1);
+      continue;
+    }
+    if ((m = line.match(/^#rack(\d+)\s+(\S+)/))) {
+      finalRacks[Number(m[1]) - 1] = splitTiles(m[2].toUpperCase(), multi);
+      continue;
+    }
+    if (line.startsWith('#')) continue;
+    if (!(m = line.match(/^>([^:]+):\s*(.*)$/))) throw new Error('IMPORT_BAD_GCG_LINE');
+    const seat = seatByName.get(m[1].trim());
+    if (seat === undefined) throw new Error('IMPORT_UNKNOWN_PLAYER');
+    const fields = m[2].split(/\s+/);
+    // Trailing fields are always "<+/-score> <cumulative>"
+    const total = Number(fields.pop());
+    const score = Number(fields.pop());
+    if (!Number.isFinite(total) || !Number.isFinite(score)) throw new Error('IMPORT_BAD_GCG_SCORE');
+    scores[seat] = total;
+
+    // The rack, when given, comes first: only letters and '?' (coordinates hold a digit)
+    const rack = fields.length > 0 && /^[\p{L}?]+$/u.test(fields[0]) ? fields.shift()!.toUpperCase() : undefined;
+    const move: ImportedMove = { seat, action: 'pass', score, words: [], tiles: [], rack };
+    const [first, second] = fields;
+
+    if (first === undefined || first === '-') {
+      // Points lost on a pass row are a failed challenge's penalty
+      move.action = score < 0 ? 'challengePenalty' : 'pass';
+    } else if (first === '--') {
+      // Phony withdrawn: lift this player's previous play
+      move.action = 'withdraw';
+      const prev = [...moves].reverse().find((pm) => pm.seat === seat && pm.action === 'play');
+      if (prev) {
+        for (const t of prev.tiles) board.delete(`${t.x},${t.y}`);
+        move.words = prev.words;
+      }
+    } else if (first.startsWith('-')) {
+      move.action = 'exchange';
+      if (/^-\d+$/.test(first)) {
+        move.exchangedCount = Number(first.slice(1));
+      } else {
+        move.exchanged = first.slice(1).toUpperCase();
+        move.exchangedCount = splitTiles(move.exchanged, multi).length;
+      }
+    } else if (first === '(challenge)') {
+      move.action = 'challengePenalty';
+    } else if (first === '(time)') {
+      move.action = 'timePenalty';
+    } else if (first.startsWith('(')) {
+      throw new Error('IMPORT_GAME_FINISHED');
+    } else {
+      move.action = 'play';
+      const start = parseCoordinate(first, size);
+      const word = splitTiles(second || '', multi);
+      if (word.length === 0) throw new Error('IMPORT_BAD_GCG_LINE');
+      let spelled = '';
+      for (let i = 0; i < word.length; i++) {
+        const x = start.direction === 'row' ? start.x + i : start.x;
+        const y = start.direction === 'row' ? start.y : start.y + i;
+        if (x >= size || y >= size) throw new Error('IMPORT_OUT_OF_BOUNDS');
+        const key = `${x},${y}`;
+        const existing = board.get(key);
+        const ch = word[i];
+        if (ch === '.' || existing) {
+          if (!existing) throw new Error('IMPORT_BAD_PLAY_THROUGH');
+          if (ch !== '.' && ch.toUpperCase() !== existing.letter) throw new Error('IMPORT_CONFLICT');
+          spelled += existing.isJoker ? existing.letter.toLowerCase() : existing.letter;
+          continue;
+        }
+        if (!isLetter(ch)) throw new Error('IMPORT_BAD_LETTER');
+        const tile: ImportedTile = { x, y, letter: ch.toUpperCase(), isJoker: ch !== ch.toUpperCase(), seat };
+        board.set(key, tile);
+        move.tiles.push(tile);
+        spelled += ch;
+      }
+      if (move.tiles.length === 0) throw new Error('IMPORT_EMPTY_PLAY');
+      move.words = [spelled];
+      move.start = start;
+    }
+    moves.push(move);
+    if (move.action === 'play' || move.action === 'pass' || move.action === 'exchange') toMove = seat + 1;
+  }
+
+  const seats = Math.max(seatByName.size, ...moves.map((mv) => mv.seat + 1));
+  if (seats === 0) throw new Error('IMPORT_NO_PLAYERS');
+  return {
+    seats,
+    tiles: Array.from(board.values()),
+    racks: Array.from({ length: seats }, (_, i) => finalRacks[i]),
+    scores: Array.from({ length: seats }, (_, i) => scores[i] || 0),
+    moves,
+    toMove: toMove % seats,
+  };
+}
+
+// A tile's letters: 'A', 'ñ', 'CH'...
+function isLetter(tile: string) {
+  return /^\p{L}+$/u.test(tile);
+}
+
+// '8H' is across row 8 from column H; 'H8' is down column H from row 8
+function parseCoordinate(coord: string, size: number): NonNullable<MoveSummary['start']> {
+  let m = coord.match(/^(\d+)([A-Za-z])$/);
+  if (m) return checkBounds({ x: m[2].toUpperCase().charCodeAt(0) - 65, y: Number(m[1]) - 1, direction: 'row' }, size);
+  m = coord.match(/^([A-Za-z])(\d+)$/);
+  if (m) return checkBounds({ x: m[1].toUpperCase().charCodeAt(0) - 65, y: Number(m[2]) - 1, direction: 'col' }, size);
+  throw new Error('IMPORT_BAD_COORDINATE');
+}
+
+function checkBounds(start: NonNullable<MoveSummary['start']>, size: number) {
+  if (start.x < 0 || start.x >= size || start.y < 0 || start.y >= size) throw new Error('IMPORT_OUT_OF_BOUNDS');
+  return start;
+}
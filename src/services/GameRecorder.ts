@@ -0,0 +1,19 @@
+import type { Room } from '../models/types';
+import type { CareerStatsService } from './CareerStatsService';
+import type { RatingService } from './RatingService';
+
+// Puts each finished game into its players' profiles, once, whichever way it ended:
+// careers for every human, ratings for rated games between at least two humans.
+// Players who forfeited count along with those who stayed.
+export class GameRecorder {
+  constructor(private ratings: RatingService, private careers: CareerStatsService, private now: () => number = () => Date.now()) {}
+
+  recordGame(room: Room) {
+    const game = room.game;
+    if (!game || game.recordedAt) return;
+    game.recordedAt = this.now();
+    this.careers.recordGame(room);
+    const humans = [...room.players, ...(game.forfeited || [])].filter((p) => !p.isBot);
+    if (room.settings.rated && humans.length >= 2) game.ratingChanges = this.ratings.recordGame(room);
+  }
+}
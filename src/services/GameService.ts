@@ -1,71 +1,203 @@
-import { TURN_DURATION_MS, MAX_CONSECUTIVE_PASSES, generateBonusLayout, getLetterDistribution, LANGUAGE } from '../config/constants';
+import { CHALLENGE_WINDOW_MS, CHALLENGE_PENALTY_POINTS, DUPLICATE_BALANCED_ROUNDS, OVERTIME_PENALTY_POINTS, TAKEBACK_WINDOW_MS, getLetterDistribution, getTileLetters, getVowels } from '../config/constants';
+import type { Language } from '../config/constants';
+import { getBoardLayout } from '../config/boardLayouts';
+import type { BoardLayout } from '../config/boardLayouts';
 import { tileId } from '../utils/id';
-import type { BoardCell, GameState, MovePlacement, MoveSummary, Player, Room, Tile, TileOnBoard } from '../models/types';
+import { boardIsEmpty, boardLetter, letterAndWordMultipliers, strayTile } from '../utils/board';
+import { turnLengthMs } from '../utils/clock';
+import { fromSquareSymbols, toSquareSymbol } from '../utils/letters';
+import type { BoardCell, DuplicateSubmission, GameState, MoveAction, MovePreview, MovePlacement, MoveSummary, PendingChallenge, Player, Room, TakebackPoint, Tile, TileOnBoard } from '../models/types';
 import type { WordValidator } from './WordValidator';
+import type { DictionaryRegistry } from './DictionaryRegistry';
+import { generateMoves } from './MoveGenerator';
+import type { ImportedPosition } from './GameImporter';
+import type { GameRecorder } from './GameRecorder';
+
+// Optional checks a client sends with a move
+export interface PlayMoveOptions {
+  expectedVersion?: number; // game version the client acted on; another one is STALE_STATE
+  moveId?: string; // client-generated id, recorded on the move
+}
 
 export class GameService {
-  constructor(private wordValidator: WordValidator) {}
+  // Every way a game ends goes through finish(), which hands it to the `recorder`
+  constructor(private dictionaries: DictionaryRegistry, private recorder?: GameRecorder) {}
+
+  // The dictionary the room plays with
+  private validator(room: Room): WordValidator {
+    return this.dictionaries.get(room.settings.dictionary);
+  }
 
   startNewGame(room: Room) {
     if (room.players.length === 0) throw new Error('NO_PLAYERS');
-    // Reset players
-    for (const p of room.players) {
-      p.score = 0;
-      p.rack = [];
-      p.ready = false;
-      p.stats = { wordsPlayed: 0, bestWordScore: 0, bestWord: null, totalTurns: 0, passes: 0 };
-    }
-    // Build board
-    const board: BoardCell[][] = [];
-    for (let y = 0; y < 15; y++) {
-      const row: BoardCell[] = [];
-      for (let x = 0; x < 15; x++) row.push({ x, y, bonusUsed: false });
-      board.push(row);
-    }
-    for (const b of generateBonusLayout()) {
-      board[b.y][b.x].bonus = b.bonus;
-    }
-    // Build bag
-    const bag: Tile[] = [];
-    for (const def of getLetterDistribution(LANGUAGE)) {
-      for (let i = 0; i < def.count; i++) {
-        bag.push({ id: tileId(), letter: def.letter, value: def.value, isJoker: !!def.isJoker });
-      }
-    }
+    // The top play of each duplicate round is found by the move generator
+    const duplicate = room.mode === 'duplicate';
+    if (duplicate && !this.canGenerateMoves(room)) throw new Error('DUPLICATE_UNAVAILABLE');
+    resetPlayers(room);
+    const layout = getBoardLayout(room.settings.boardLayout);
+    const board = buildBoard(layout);
+    const bag = buildBag(room.settings.language, layout.tileSets);
     shuffle(bag);
     // Draw racks
-    for (const p of room.players) {
-      p.rack = drawTiles(bag, 7);
+    if (!duplicate) {
+      for (const p of room.players) {
+        p.rack = drawTiles(bag, 7);
+      }
     }
     const now = Date.now();
     room.game = {
+      layout: layout.id,
       board,
       bag,
       turnIndex: 0,
-      activePlayerId: room.players[0].id,
-      turnEndsAt: now + TURN_DURATION_MS,
-      turnDurationMs: TURN_DURATION_MS,
+      activePlayerId: duplicate ? '' : room.players[0].id,
+      turnEndsAt: now + room.settings.turnDurationMs,
+      turnDurationMs: room.settings.turnDurationMs,
+      turnStartedAt: now,
       log: [],
       consecutivePasses: 0,
       startedAt: now,
       version: 1,
+      lostTurnPlayerIds: [],
+      hintsUsed: {},
+    };
+    room.game.turnEndsAt = now + turnLengthMs(room.game, room.players[0]);
+    if (duplicate) {
+      room.game.duplicate = { round: 1, rack: [], submissions: {}, topTotal: 0 };
+      if (!this.dealDuplicateRack(room, [])) throw new Error('BAG_TOO_SMALL');
+    }
+  }
+
+  // Start from an imported position (GCG file or snapshot) instead of an empty board.
+  // Every tile on the board and on the racks is taken out of a full bag, so the
+  // position must fit the language's letter distribution and the room's board. The board
+  // tiles must form one group through the start square, and its words must be in the
+  // room's dictionary. The room is left untouched
+  // until the whole position has been checked.
+  async startFromPosition(room: Room, position: ImportedPosition) {
+    if (room.players.length === 0) throw new Error('NO_PLAYERS');
+    if (position.seats !== room.players.length) throw new Error('IMPORT_PLAYER_COUNT_MISMATCH');
+    if (position.racks.some((rack) => (rack?.length ?? 0) > 7)) throw new Error('IMPORT_BAD_SNAPSHOT');
+    const layout = getBoardLayout(room.settings.boardLayout);
+    const board = buildBoard(layout);
+    const bag = buildBag(room.settings.language, layout.tileSets);
+    const take = (letter: string, isJoker: boolean): Tile => {
+      const idx = bag.findIndex((t) => (isJoker ? t.isJoker : !t.isJoker && t.letter === letter));
+      if (idx < 0) throw Object.assign(new Error('IMPORT_TILE_COUNT_EXCEEDED'), { reason: isJoker ? '?' : letter });
+      return bag.splice(idx, 1)[0];
+    };
+
+    // Board tiles, stamped with their player and move when the log says so
+    const turnOf = new Map<string, number>();
+    position.moves.forEach((m, i) => { for (const t of m.tiles) turnOf.set(`${t.x},${t.y}`, i + 2); });
+    const placedIds = new Map<string, string>();
+    for (const t of position.tiles) {
+      const cell = board[t.y][t.x];
+      const tile = take(t.letter, t.isJoker);
+      const seatPlayer = t.seat !== undefined ? room.players[t.seat] : undefined;
+      cell.tile = { ...tile, fromPlayerId: seatPlayer?.id || '', turnPlayed: turnOf.get(`${t.x},${t.y}`) || 1 };
+      if (t.isJoker) cell.tile.assignedLetter = t.letter;
+      if (cell.bonus) cell.bonusUsed = true;
+      placedIds.set(`${t.x},${t.y}`, tile.id);
+    }
+    // Tiles normal play could lay: one group, through the start square
+    if (position.tiles.length > 0 && !board[layout.start.y][layout.start.x].tile) {
+      throw Object.assign(new Error('IMPORT_FAILED'), { reason: 'the start square' });
+    }
+    const stray = strayTile(board, layout.start);
+    if (stray) throw Object.assign(new Error('IMPORT_FAILED'), { reason: `${stray.x},${stray.y}` });
+    for (const word of boardWords(board)) {
+      if (!(await this.isEngineWordValid(room, word))) throw Object.assign(new Error('IMPORT_INVALID_WORD'), { reason: fromSquareSymbols(word) });
+    }
+    const racks = room.players.map((_, i) => (position.racks[i] || []).map((ch) => take(ch === '?' ? '' : ch, ch === '?')));
+
+    // Rebuild the log
+    const log: MoveSummary[] = position.moves.map((m, i) => {
+      const player = room.players[m.seat];
+      const placements: MovePlacement[] = m.tiles
+        .filter((t) => placedIds.has(`${t.x},${t.y}`))
+        .map((t) => ({ x: t.x, y: t.y, tileId: placedIds.get(`${t.x},${t.y}`)!, ...(t.isJoker ? { assignedLetter: t.letter } : {}) }));
+      const move: MoveSummary = { playerId: player.id, action: m.action, words: m.words, score: m.score, placements, turnNumber: i + 2, createdAt: Date.now() };
+      if (m.rack) move.rack = m.rack;
+      if (m.exchanged) move.exchanged = m.exchanged;
+      if (m.exchangedCount !== undefined) move.exchangedCount = m.exchangedCount;
+      if (m.start) move.start = m.start;
+      return move;
+    });
+    let consecutivePasses = 0;
+    for (let i = log.length - 1; i >= 0 && (log[i].action === 'pass' || log[i].action === 'exchange'); i--) consecutivePasses++;
+
+    // The position holds: deal the racks and replay the stats the log implies
+    resetPlayers(room);
+    shuffle(bag);
+    room.players.forEach((p, i) => {
+      p.rack = racks[i];
+      p.rack.push(...drawTiles(bag, Math.max(0, 7 - p.rack.length)));
+      p.score = position.scores[i] || 0;
+    });
+    for (const m of position.moves) {
+      const stats = room.players[m.seat].stats;
+      if (m.action === 'play') {
+        stats.wordsPlayed++;
+        stats.totalTurns++;
+        if (m.score > stats.bestWordScore) { stats.bestWordScore = m.score; stats.bestWord = m.words[0] || null; }
+      } else if (m.action === 'pass' || m.action === 'exchange') {
+        stats.passes++;
+      }
+    }
+
+    const now = Date.now();
+    room.game = {
+      layout: layout.id,
+      board,
+      bag,
+      turnIndex: position.toMove,
+      activePlayerId: room.players[position.toMove].id,
+      turnEndsAt: now + room.settings.turnDurationMs,
+      turnDurationMs: room.settings.turnDurationMs,
+      turnStartedAt: now,
+      lastMove: log[log.length - 1],
+      log,
+      consecutivePasses,
+      startedAt: now,
+      version: log.length + 1,
+      lostTurnPlayerIds: [],
+      hintsUsed: {},
     };
+    room.game.turnEndsAt = now + turnLengthMs(room.game, room.players[position.toMove]);
   }
 
-  async playMove(room: Room, playerId: string, action: 'play'|'pass'|'exchange', placements?: MovePlacement[], tileIdsToExchange?: string[]) {
+  async playMove(room: Room, playerId: string, action: 'play'|'pass'|'exchange', placements?: MovePlacement[], tileIdsToExchange?: string[], options: PlayMoveOptions = {}) {
     const game = room.game;
     if (!game) throw new Error('NO_GAME');
+    if (room.status === 'finished') throw new Error('GAME_OVER');
     const playerIdx = room.players.findIndex((p) => p.id === playerId);
     if (playerIdx < 0) throw new Error('PLAYER_NOT_IN_ROOM');
+    if (game.duplicate) throw new Error('DUPLICATE_ROUND');
+    // The client saw an older state, e.g. its turn was passed by the timer in the meantime
+    const version = game.version;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== version) throw new Error('STALE_STATE');
     if (game.activePlayerId !== playerId) throw new Error('NOT_YOUR_TURN');
     const player = room.players[playerIdx];
 
+    // Acting on the turn accepts any play still open to challenge, except a play that
+    // went out: the game ends when its window closes unless it is withdrawn
+    if (game.pendingChallenge) {
+      if (game.bag.length === 0 && room.players.some((p) => p.rack.length === 0)) throw new Error('CHALLENGE_WINDOW_OPEN');
+      game.pendingChallenge = undefined;
+    }
+    // What a takeback of this move would restore
+    const before = { rack: [...player.rack], score: player.score, stats: { ...player.stats }, consecutivePasses: game.consecutivePasses, turnIndex: game.turnIndex, lostTurnPlayerIds: [...game.lostTurnPlayerIds] };
+
     if (action === 'pass') {
       player.stats.passes++;
       game.consecutivePasses++;
       const move = this.buildMoveSummary('pass', playerId, [], 0, game);
+      move.rack = rackString(player.rack);
+      if (options.moveId) move.moveId = options.moveId;
       game.lastMove = move;
       game.log.push(move);
+      this.recordTakebackPoint(game, { ...before, playerId, move, logLength: game.log.length });
       await this.advanceTurn(room);
       return { move, ended: this.checkAndFinalizeIfEnded(room) } as const;
     }
@@ -77,6 +209,7 @@ export class GameService {
       // Validate player owns those tiles
       const own = new Set(player.rack.map((t) => t.id));
       for (const id of ids) if (!own.has(id)) throw new Error('TILE_NOT_IN_RACK');
+      const rackBefore = rackString(player.rack);
       // Remove and put back to bag
       const toReturn: Tile[] = [];
       player.rack = player.rack.filter((t) => {
@@ -90,29 +223,111 @@ export class GameService {
       player.stats.passes++;
       game.consecutivePasses++;
       const move = this.buildMoveSummary('exchange', playerId, [], 0, game);
+      move.rack = rackBefore;
+      move.exchanged = rackString(toReturn);
+      move.exchangedCount = toReturn.length;
+      if (options.moveId) move.moveId = options.moveId;
       game.lastMove = move;
       game.log.push(move);
+      this.recordTakebackPoint(game, { ...before, playerId, move, logLength: game.log.length });
       await this.advanceTurn(room);
       return { move, ended: this.checkAndFinalizeIfEnded(room) } as const;
     }
 
     // action === 'play'
-    const placementsList = placements || [];
+    // Under a challenge rule the play stands until an opponent challenges it.
+    const play = await this.evaluatePlay(room, player.rack, placements || [], room.challengeRule === 'void');
+    const { placements: placementsList, words: allWords, score: total, mainWord, used } = play;
+    // The turn may have moved on (e.g. a forced pass) while the words were being checked
+    if (room.game !== game || game.version !== version) throw new Error('STALE_STATE');
+
+    // Apply placements, consume bonuses, update board
+    const turnNumber = (room.game?.version || 0) + 1;
+    const placedTiles: TileOnBoard[] = [];
+    for (const pl of placementsList) {
+      const tile = player.rack.find((t) => t.id === pl.tileId)!;
+      const cell = game.board[pl.y][pl.x];
+      cell.tile = { ...tile, fromPlayerId: playerId, turnPlayed: turnNumber };
+      if (tile.isJoker) cell.tile.assignedLetter = pl.assignedLetter;
+      placedTiles.push(cell.tile);
+      // Bonus consumed handled by scoring functions that looked at new placements; mark as used.
+      if (cell.bonus) cell.bonusUsed = true;
+    }
+    // Remove used tiles from rack
+    const rackBefore = rackString(player.rack);
+    player.rack = player.rack.filter((t) => !used.has(t.id));
+    // Draw
+    const drawn = drawTiles(game.bag, Math.min(7 - player.rack.length, game.bag.length));
+    player.rack.push(...drawn);
+
+    // Update scores and stats
+    const previousStats = { ...player.stats };
+    const previousConsecutivePasses = game.consecutivePasses;
+    player.score += total;
+    player.stats.wordsPlayed += 1;
+    player.stats.totalTurns += 1;
+    if (total > player.stats.bestWordScore) {
+      player.stats.bestWordScore = total;
+      player.stats.bestWord = mainWord;
+    }
+    game.consecutivePasses = 0;
+
+    const move: MoveSummary = this.buildMoveSummary('play', playerId, placementsList, total, game, allWords);
+    move.rack = rackBefore;
+    move.start = play.start;
+    if (options.moveId) move.moveId = options.moveId;
+    game.lastMove = move;
+    game.log.push(move);
+    this.recordTakebackPoint(game, { ...before, playerId, move, logLength: game.log.length });
+    if (room.challengeRule !== 'void') {
+      game.pendingChallenge = {
+        playerId,
+        move,
+        drawnTileIds: drawn.map((t) => t.id),
+        words: play.engineWords,
+        previousStats,
+        previousConsecutivePasses,
+        expiresAt: Date.now() + CHALLENGE_WINDOW_MS,
+      };
+    }
+
+    // Advance turn
+    await this.advanceTurn(room);
+
+    // Check end of game
+    const ended = this.checkAndFinalizeIfEnded(room);
+    return { move, ended } as const;
+  }
+
+  // Check a placement against the board and score it, without changing anything.
+  // Throws the same errors playMove reports; `checkWords` consults the dictionary.
+  private async evaluatePlay(room: Room, rack: Tile[], placements: MovePlacement[], checkWords: boolean) {
+    const game = room.game!;
+    const placementsList = placements.map((pl) => ({ ...pl }));
     if (placementsList.length === 0) throw new Error('NO_PLACEMENTS');
 
     // Validate placements within board and target empty
     for (const pl of placementsList) {
-      if (pl.x < 0 || pl.x >= 15 || pl.y < 0 || pl.y >= 15) throw new Error('OUT_OF_BOUNDS');
+      if (!game.board[pl.y]?.[pl.x]) throw new Error('OUT_OF_BOUNDS');
       if (game.board[pl.y][pl.x].tile) throw new Error('CELL_OCCUPIED');
     }
-    // Validate all tileIds are in player's rack and unique
-    const rackIds = new Set(player.rack.map((t) => t.id));
+    // Validate all tileIds are in the rack and unique
+    const rackIds = new Set(rack.map((t) => t.id));
     const used = new Set<string>();
     for (const pl of placementsList) {
       if (!rackIds.has(pl.tileId)) throw new Error('TILE_NOT_IN_RACK');
       if (used.has(pl.tileId)) throw new Error('DUPLICATE_TILE');
       used.add(pl.tileId);
     }
+    // Jokers must be given the letter they stand for; regular tiles carry none
+    for (const pl of placementsList) {
+      const tile = rack.find((t) => t.id === pl.tileId)!;
+      if (!tile.isJoker) { delete pl.assignedLetter; continue; }
+      const letter = (pl.assignedLetter || '').toUpperCase();
+      if (!letter) throw new Error('JOKER_LETTER_REQUIRED');
+      if (!getTileLetters(room.settings.language).includes(letter)) throw new Error('INVALID_JOKER_LETTER');
+      pl.assignedLetter = letter;
+    }
     // Validate line alignment
     const sameRow = placementsList.every((p) => p.y === placementsList[0].y);
     const sameCol = placementsList.every((p) => p.x === placementsList[0].x);
@@ -120,15 +335,18 @@ export class GameService {
 
     const firstMove = boardIsEmpty(game.board);
     if (firstMove) {
-      // Must include center (7,7)
-      if (!placementsList.some((p) => p.x === 7 && p.y === 7)) throw new Error('MUST_COVER_CENTER');
+      // Must cover the layout's start square (the center on every board)
+      const { start } = getBoardLayout(game.layout);
+      if (!placementsList.some((p) => p.x === start.x && p.y === start.y)) throw new Error('MUST_COVER_CENTER');
     }
 
-    // Build map of placement info from player's rack for scoring and validation
+    // Build map of placement info from the rack for scoring and validation
     const placementInfo = new Map<string, { value: number; letter: string }>();
     for (const pl of placementsList) {
-      const tile = player.rack.find((t) => t.id === pl.tileId)!;
-      placementInfo.set(`${pl.x},${pl.y}`, { value: tile.value, letter: tile.letter || '' });
+      const tile = rack.find((t) => t.id === pl.tileId)!;
+      // Jokers are spelled in lowercase so they stay recognizable in words and logs
+      const letter = toSquareSymbol(tile.isJoker ? pl.assignedLetter!.toLowerCase() : (tile.letter || ''));
+      placementInfo.set(`${pl.x},${pl.y}`, { value: tile.value, letter });
     }
 
     // Build main word extents and verify contiguity and connection
@@ -142,62 +360,414 @@ export class GameService {
     const allWords = [main.word, ...cross.map((c) => c.word)].filter((w) => w.length > 1);
     if (allWords.length === 0) throw new Error('NO_WORD_FORMED');
 
-    // Validate words via WordValidator (support '?' wildcard for jokers)
-    for (const w of allWords) {
-      const normalized = w.replace(/#/g, '?').toUpperCase();
-      const ok = await this.wordValidator.isWordValid(normalized);
-      if (!ok) throw Object.assign(new Error('INVALID_WORD'), { reason: w });
+    // Validate words via WordValidator (jokers are validated as their assigned letter)
+    if (checkWords) {
+      for (const w of allWords) {
+        if (!(await this.isEngineWordValid(room, w))) throw Object.assign(new Error('INVALID_WORD'), { reason: fromSquareSymbols(w) });
+      }
     }
 
-    // Compute score
-    const { score: mainScore, affectedCells: mainCells } = scoreWord(game.board, placementsList, placementInfo, direction, main);
-    let total = mainScore;
+    // Compute score, word by word in the order of allWords. A lone tile forms no word along
+    // the placement line: only its cross word scores, as the move generator counts it
+    const wordScores: number[] = [];
+    if (main.word.length > 1) wordScores.push(scoreWord(game.board, placementsList, placementInfo, direction, main).score);
     for (const cw of cross) {
       const { score } = scoreCrossWord(game.board, placementsList, placementInfo, cw);
-      total += score;
+      wordScores.push(score);
     }
+    let total = wordScores.reduce((acc, n) => acc + n, 0);
     // 7-letter bonus (bingo)
-    if (placementsList.length === 7) total += 50;
+    const bingo = placementsList.length === 7;
+    if (bingo) total += room.settings.bingoBonus;
+    const bonuses = placementsList
+      .map((pl) => game.board[pl.y][pl.x])
+      .filter((cell) => cell.bonus && !cell.bonusUsed)
+      .map((cell) => ({ x: cell.x, y: cell.y, bonus: cell.bonus! }));
 
-    // Apply placements, consume bonuses, update board
-    const turnNumber = (room.game?.version || 0) + 1;
-    const placedTiles: TileOnBoard[] = [];
-    for (const pl of placementsList) {
-      const tile = player.rack.find((t) => t.id === pl.tileId)!;
-      const cell = game.board[pl.y][pl.x];
-      cell.tile = { ...tile, fromPlayerId: playerId, turnPlayed: turnNumber };
-      placedTiles.push(cell.tile);
-      // Bonus consumed handled by scoring functions that looked at new placements; mark as used.
-      if (cell.bonus) cell.bonusUsed = true;
+    // Where the first listed word starts: the main word, or the cross word of a lone tile
+    let start: NonNullable<MoveSummary['start']>;
+    if (main.word.length > 1) {
+      start = direction === 'row' ? { x: main.x0!, y: main.y!, direction } : { x: main.x!, y: main.y0!, direction };
+    } else {
+      const cw = cross[0];
+      start = { x: cw.x0, y: cw.y0, direction: cw.x0 === cw.x1 ? 'col' : 'row' };
     }
-    // Remove used tiles from rack
-    player.rack = player.rack.filter((t) => !used.has(t.id));
-    // Draw
-    player.rack.push(...drawTiles(game.bag, Math.min(7 - player.rack.length, game.bag.length)));
+    return {
+      placements: placementsList,
+      words: allWords.map(fromSquareSymbols),
+      engineWords: allWords,
+      wordScores,
+      bonuses,
+      bingo,
+      score: total,
+      mainWord: fromSquareSymbols(main.word),
+      start,
+      used,
+    };
+  }
 
-    // Update scores and stats
-    player.score += total;
-    player.stats.wordsPlayed += 1;
-    player.stats.totalTurns += 1;
-    if (total > player.stats.bestWordScore) {
-      player.stats.bestWordScore = total;
-      player.stats.bestWord = main.word;
+  // Dry run of a play from the player's rack: the words it forms, what it would score and
+  // why it would be refused, without changing anything. Words are looked up in the dictionary
+  // only if the room allows it; otherwise `valid` only covers the placement rules.
+  async previewMove(room: Room, playerId: string, placements: MovePlacement[]): Promise<MovePreview> {
+    if (!room.game) throw new Error('NO_GAME');
+    const player = room.players.find((p) => p.id === playerId);
+    if (!player) throw new Error('PLAYER_NOT_IN_ROOM');
+    let play: Awaited<ReturnType<GameService['evaluatePlay']>>;
+    try {
+      play = await this.evaluatePlay(room, player.rack, placements, false);
+    } catch (e: any) {
+      return { valid: false, error: { code: e?.message || 'INVALID_MOVE', reason: e?.reason }, words: [], bonuses: [], bingo: false, score: 0 };
     }
-    game.consecutivePasses = 0;
+    const words: MovePreview['words'] = play.words.map((word, i) => ({ word, score: play.wordScores[i] }));
+    let error: MovePreview['error'];
+    if (room.settings.previewWordCheck) {
+      for (let i = 0; i < words.length; i++) {
+        words[i].valid = await this.isEngineWordValid(room, play.engineWords[i]);
+        if (!words[i].valid && !error) error = { code: 'INVALID_WORD', reason: words[i].word };
+      }
+    }
+    return { valid: !error, error, words, bonuses: play.bonuses, bingo: play.bingo, score: play.score };
+  }
 
-    const move: MoveSummary = this.buildMoveSummary('play', playerId, placementsList, total, game, allWords);
+  private isEngineWordValid(room: Room, word: string) {
+    return this.validator(room).isWordValid(word.replace(/#/g, '?').toUpperCase());
+  }
+
+  // Duplicate mode: record a player's play for the current round. Nothing is placed until
+  // the round closes; a new submission replaces the previous one. No placements gives up the round.
+  async submitDuplicatePlay(room: Room, playerId: string, placements: MovePlacement[], moveId?: string) {
+    const game = room.game;
+    if (!game) throw new Error('NO_GAME');
+    const dup = game.duplicate;
+    if (!dup) throw new Error('NOT_DUPLICATE');
+    if (!room.players.some((p) => p.id === playerId)) throw new Error('PLAYER_NOT_IN_ROOM');
+    const round = dup.round;
+    let submission: DuplicateSubmission = { placements: [], words: [], score: 0, submittedAt: Date.now() };
+    if (placements.length > 0) {
+      const play = await this.evaluatePlay(room, dup.rack, placements, true);
+      submission = { placements: play.placements, words: play.words, score: play.score, submittedAt: Date.now() };
+    }
+    // The round may have closed while the words were being checked
+    if (room.status !== 'playing' || room.game !== game || dup.round !== round) throw new Error('ROUND_OVER');
+    if (moveId) submission.moveId = moveId;
+    dup.submissions[playerId] = submission;
+    game.version += 1;
+    return { submission, allSubmitted: room.players.every((p) => !!dup.submissions[p.id]) } as const;
+  }
+
+  // Close the current duplicate round: the top play goes on the board, each player scores
+  // their own submission and the next rack is dealt. The game ends when the rack has no
+  // play or the bag can no longer provide a valid rack.
+  closeDuplicateRound(room: Room) {
+    const game = room.game;
+    if (!game) throw new Error('NO_GAME');
+    const dup = game.duplicate;
+    if (!dup) throw new Error('NOT_DUPLICATE');
+    const lexicon = this.validator(room).getLexicon?.();
+    const top = lexicon ? generateMoves(game.board, dup.rack, lexicon, { bingoBonus: room.settings.bingoBonus, start: getBoardLayout(game.layout).start })[0] : undefined;
+
+    const results = room.players.map((p) => {
+      const sub = dup.submissions[p.id];
+      const score = sub?.score || 0;
+      p.score += score;
+      p.stats.totalTurns += 1;
+      if (sub && sub.placements.length > 0) {
+        p.stats.wordsPlayed += 1;
+        if (score > p.stats.bestWordScore) {
+          p.stats.bestWordScore = score;
+          p.stats.bestWord = sub.words[0] || null;
+        }
+      } else {
+        p.stats.passes += 1;
+      }
+      return { playerId: p.id, words: sub?.words || [], score, top: !!top && score === top.score };
+    });
+
+    let move: MoveSummary | undefined;
+    let keep: Tile[] = [];
+    if (top) {
+      // Credited to whoever found the top score first, if anyone did
+      const finder = room.players
+        .filter((p) => dup.submissions[p.id]?.score === top.score)
+        .sort((a, b) => dup.submissions[a.id].submittedAt - dup.submissions[b.id].submittedAt)[0];
+      const turnNumber = game.version + 1;
+      for (const pl of top.placements) {
+        const tile = dup.rack.find((t) => t.id === pl.tileId)!;
+        const cell = game.board[pl.y][pl.x];
+        cell.tile = { ...tile, fromPlayerId: finder?.id || '', turnPlayed: turnNumber };
+        if (tile.isJoker) cell.tile.assignedLetter = pl.assignedLetter;
+        if (cell.bonus) cell.bonusUsed = true;
+      }
+      move = this.buildMoveSummary('play', finder?.id || '', top.placements, top.score, game, top.words);
+      move.rack = rackString(dup.rack);
+      move.start = top.start;
+      game.lastMove = move;
+      game.log.push(move);
+      dup.topTotal += top.score;
+      const used = new Set(top.placements.map((pl) => pl.tileId));
+      keep = dup.rack.filter((t) => !used.has(t.id));
+    }
+
+    const round = dup.round;
+    dup.round += 1;
+    dup.submissions = {};
+    const ended = !top || !this.dealDuplicateRack(room, keep);
+    if (ended) {
+      for (const p of room.players) p.rack = [];
+      this.finish(room);
+    }
+    game.version += 1;
+    return { round, move, results, ended } as const;
+  }
+
+  // Each player's share of the top total, in percent with one decimal
+  duplicateStandings(room: Room): Record<string, number> {
+    return percentOfTop(room.players, room.game?.duplicate?.topTotal || 0);
+  }
+
+  // Draw the rack for the round, topping up the tiles the last top play left. A draw
+  // short of vowels or consonants goes back to the bag in full and is drawn again.
+  // Returns false when the remaining tiles cannot make a valid rack.
+  private dealDuplicateRack(room: Room, keep: Tile[]): boolean {
+    const game = room.game!;
+    const dup = game.duplicate!;
+    const minEach = dup.round <= DUPLICATE_BALANCED_ROUNDS ? 2 : 1;
+    const vowels = new Set(getVowels(room.settings.language));
+    if (keep.length + game.bag.length === 0 || !rackIsBalanced([...keep, ...game.bag], vowels, minEach)) {
+      game.bag.push(...keep);
+      return false;
+    }
+    let rack = [...keep, ...drawTiles(game.bag, 7 - keep.length)];
+    // The pool can make a valid rack, so this ends quickly; the cap only guards against bad luck
+    for (let attempt = 0; attempt < 1000 && !rackIsBalanced(rack, vowels, minEach); attempt++) {
+      game.bag.push(...rack);
+      shuffle(game.bag);
+      rack = drawTiles(game.bag, 7);
+    }
+    dup.rack = rack;
+    // Everyone plays from a copy of the same tiles
+    for (const p of room.players) p.rack = rack.map((t) => ({ ...t }));
+    game.turnEndsAt = Date.now() + game.turnDurationMs;
+    return true;
+  }
+
+  // The move a player already made with this client move id, if any and if it still
+  // stands. A move taken back or withdrawn is followed in the log by the entry undoing it.
+  findMoveById(room: Room, playerId: string, moveId: string): MoveSummary | undefined {
+    const log = room.game?.log || [];
+    return log.find((m, i) => m.playerId === playerId && m.moveId === moveId && log[i + 1]?.action !== 'takeback' && log[i + 1]?.action !== 'withdraw');
+  }
+
+  // Whether findMoves can run (the room's dictionary exposes its word list)
+  canGenerateMoves(room: Room): boolean {
+    return !!this.validator(room).getLexicon?.();
+  }
+
+  // Best plays available to a player's rack on the current board, highest score first
+  findMoves(room: Room, playerId: string, limit: number) {
+    const game = room.game;
+    if (!game) throw new Error('NO_GAME');
+    const player = room.players.find((p) => p.id === playerId);
+    if (!player) throw new Error('PLAYER_NOT_IN_ROOM');
+    const lexicon = this.validator(room).getLexicon?.();
+    if (!lexicon) throw new Error('HINTS_UNAVAILABLE');
+    return generateMoves(game.board, player.rack, lexicon, { bingoBonus: room.settings.bingoBonus, start: getBoardLayout(game.layout).start }).slice(0, limit);
+  }
+
+  // Challenge the play currently open to challenge. If any word it formed is invalid the
+  // play is withdrawn; otherwise the challenger pays the penalty of the room's rule.
+  async challenge(room: Room, challengerId: string) {
+    const game = room.game;
+    if (!game) throw new Error('NO_GAME');
+    const challenger = room.players.find((p) => p.id === challengerId);
+    if (!challenger) throw new Error('PLAYER_NOT_IN_ROOM');
+    const pending = game.pendingChallenge;
+    if (!pending || Date.now() > pending.expiresAt) throw new Error('NO_CHALLENGE_WINDOW');
+    if (pending.playerId === challengerId) throw new Error('CANNOT_CHALLENGE_OWN_MOVE');
+    game.pendingChallenge = undefined;
+
+    const invalidWords: string[] = [];
+    for (const w of pending.words) {
+      if (!(await this.isEngineWordValid(room, w))) invalidWords.push(fromSquareSymbols(w));
+    }
+
+    let move: MoveSummary;
+    if (invalidWords.length > 0) {
+      this.withdrawPlay(room, pending);
+      move = this.buildMoveSummary('withdraw', pending.playerId, pending.move.placements, -pending.move.score, game, pending.move.words);
+      move.rack = pending.move.rack;
+    } else if (room.challengeRule === 'double') {
+      move = this.buildMoveSummary('challengePenalty', challengerId, [], 0, game);
+    } else {
+      challenger.score -= CHALLENGE_PENALTY_POINTS;
+      move = this.buildMoveSummary('challengePenalty', challengerId, [], -CHALLENGE_PENALTY_POINTS, game);
+    }
+    move.challengerId = challengerId;
+    if (move.action === 'challengePenalty') move.rack = rackString(challenger.rack);
     game.lastMove = move;
     game.log.push(move);
 
-    // Advance turn
-    await this.advanceTurn(room);
+    if (move.action === 'challengePenalty' && room.challengeRule === 'double') {
+      // The challenger loses their next turn, right away if it is theirs already
+      if (game.activePlayerId === challengerId) await this.advanceTurn(room);
+      else {
+        game.lostTurnPlayerIds.push(challengerId);
+        this.restartTurn(room);
+        game.version += 1;
+      }
+    } else {
+      // The window is closed early; after a withdrawal the board also changed under the
+      // player to move, so their turn starts over
+      this.restartTurn(room);
+      game.version += 1;
+    }
+    return { move, withdrawn: invalidWords.length > 0, invalidWords, ended: this.checkAndFinalizeIfEnded(room) } as const;
+  }
 
-    // Check end of game
-    const ended = this.checkAndFinalizeIfEnded(room);
-    return { move, ended } as const;
+  // Close the challenge window once it has expired; returns true if the game ended as a result
+  closeExpiredChallenge(room: Room): boolean {
+    const game = room.game;
+    if (!game?.pendingChallenge || Date.now() <= game.pendingChallenge.expiresAt) return false;
+    game.pendingChallenge = undefined;
+    return this.checkAndFinalizeIfEnded(room);
+  }
+
+  // Ask the opponents to undo the requester's last move. Bots agree straight away, so the
+  // move may be taken back at once (`move` is then the takeback logged).
+  requestTakeback(room: Room, playerId: string) {
+    const game = room.game;
+    if (!game || room.status !== 'playing') throw new Error('NO_GAME');
+    if (!room.settings.allowTakebacks || room.settings.rated || game.duplicate) throw new Error('TAKEBACKS_DISABLED');
+    if (!this.canTakeBack(game, playerId)) throw new Error('NOTHING_TO_TAKE_BACK');
+    if (game.takebackRequest && Date.now() <= game.takebackRequest.expiresAt) throw new Error('TAKEBACK_PENDING');
+    const bots = room.players.filter((p) => p.isBot && p.id !== playerId).map((p) => p.id);
+    const request = { playerId, acceptedBy: bots, expiresAt: Date.now() + TAKEBACK_WINDOW_MS };
+    game.takebackRequest = request;
+    const move = this.everyoneAgreed(room) ? this.takeBack(room) : undefined;
+    return { request, move };
   }
 
-  private buildMoveSummary(action: 'play'|'pass'|'exchange', playerId: string, placements: MovePlacement[], score: number, game: GameState, words: string[] = []) : MoveSummary {
+  // An opponent's answer. One refusal ends the request; the move is taken back once every
+  // opponent has agreed.
+  respondTakeback(room: Room, playerId: string, accept: boolean) {
+    const game = room.game;
+    const request = game?.takebackRequest;
+    if (!game || !request || Date.now() > request.expiresAt) throw new Error('NO_TAKEBACK_REQUEST');
+    if (!room.players.some((p) => p.id === playerId)) throw new Error('PLAYER_NOT_IN_ROOM');
+    if (request.playerId === playerId) throw new Error('CANNOT_ANSWER_OWN_REQUEST');
+    if (!accept) {
+      game.takebackRequest = undefined;
+      return { status: 'declined' } as const;
+    }
+    if (!request.acceptedBy.includes(playerId)) request.acceptedBy.push(playerId);
+    if (!this.everyoneAgreed(room)) return { status: 'pending' } as const;
+    // Something may have been logged since the request, e.g. a challenge
+    if (!this.canTakeBack(game, request.playerId)) {
+      game.takebackRequest = undefined;
+      throw new Error('NOTHING_TO_TAKE_BACK');
+    }
+    return { status: 'accepted', move: this.takeBack(room) } as const;
+  }
+
+  // Drop an unanswered request once its window is over; true if one was dropped
+  expireTakebackRequest(room: Room): boolean {
+    const game = room.game;
+    if (!game?.takebackRequest || Date.now() <= game.takebackRequest.expiresAt) return false;
+    game.takebackRequest = undefined;
+    return true;
+  }
+
+  private canTakeBack(game: GameState, playerId: string) {
+    const point = game.takebackPoint;
+    return !!point && point.playerId === playerId && point.logLength === game.log.length;
+  }
+
+  private everyoneAgreed(room: Room) {
+    const request = room.game!.takebackRequest!;
+    return room.players.every((p) => p.id === request.playerId || request.acceptedBy.includes(p.id));
+  }
+
+  private recordTakebackPoint(game: GameState, point: TakebackPoint) {
+    game.takebackPoint = point;
+    // A move made while a request was waiting answers it
+    game.takebackRequest = undefined;
+  }
+
+  // Undo the last move: board, bonuses, rack, bag, score, stats and turn as they were before it
+  private takeBack(room: Room): MoveSummary {
+    const game = room.game!;
+    const point = game.takebackPoint!;
+    const player = room.players.find((p) => p.id === point.playerId)!;
+    // Whoever was on the move pays for the time used so far, and the increment earned by
+    // the move taken back comes off the mover's clock
+    this.chargeClock(room, false);
+    if (room.timeControl.mode === 'chessClockIncrement' && player.clockMs !== undefined) player.clockMs -= room.timeControl.incrementMs;
+    game.takebackPoint = undefined;
+    game.takebackRequest = undefined;
+    game.pendingChallenge = undefined;
+    // The cells were empty before the move, so their bonuses were unused
+    for (const pl of point.move.placements) {
+      const cell = game.board[pl.y][pl.x];
+      cell.tile = null;
+      cell.bonusUsed = false;
+    }
+    // Tiles drawn since go back to the bag, tiles exchanged come out of it
+    const rackIds = new Set(point.rack.map((t) => t.id));
+    const drawn = player.rack.filter((t) => !rackIds.has(t.id));
+    game.bag = game.bag.filter((t) => !rackIds.has(t.id));
+    game.bag.push(...drawn);
+    shuffle(game.bag);
+    player.rack = point.rack;
+    player.score = point.score;
+    player.stats = point.stats;
+    game.consecutivePasses = point.consecutivePasses;
+    game.lostTurnPlayerIds = point.lostTurnPlayerIds;
+    // The player moves again from now; time already spent on clocks is not refunded
+    game.turnIndex = point.turnIndex;
+    game.activePlayerId = player.id;
+    game.turnEndsAt = game.turnStartedAt + turnLengthMs(game, player);
+    const move = this.buildMoveSummary('takeback', player.id, point.move.placements, -point.move.score || 0, game, point.move.words);
+    game.lastMove = move;
+    game.log.push(move);
+    // The version moves on rather than back, so clients that saw the move still count as stale
+    game.version += 1;
+    return move;
+  }
+
+  private withdrawPlay(room: Room, pending: PendingChallenge) {
+    const game = room.game!;
+    const player = room.players.find((p) => p.id === pending.playerId);
+    // Lift the tiles off the board; the cells were empty so their bonuses were unused
+    const returned: Tile[] = [];
+    for (const pl of pending.move.placements) {
+      const cell = game.board[pl.y][pl.x];
+      if (cell.tile) {
+        const { id, letter, value, isJoker } = cell.tile;
+        returned.push({ id, letter, value, isJoker });
+      }
+      cell.tile = null;
+      cell.bonusUsed = false;
+    }
+    if (!player) {
+      // The player has left; their rack went back to the bag, and so do these tiles
+      game.bag.push(...returned);
+      shuffle(game.bag);
+      return;
+    }
+    // Drawn tiles go back to the bag, played tiles back to the rack
+    const drawnIds = new Set(pending.drawnTileIds);
+    const drawn = player.rack.filter((t) => drawnIds.has(t.id));
+    player.rack = player.rack.filter((t) => !drawnIds.has(t.id));
+    player.rack.push(...returned);
+    game.bag.push(...drawn);
+    shuffle(game.bag);
+    player.score -= pending.move.score;
+    player.stats = { ...pending.previousStats, totalTurns: pending.previousStats.totalTurns + 1 };
+    game.consecutivePasses = pending.previousConsecutivePasses + 1;
+  }
+
+  private buildMoveSummary(action: MoveAction, playerId: string, placements: MovePlacement[], score: number, game: GameState, words: string[] = []) : MoveSummary {
     return {
       playerId,
       action,
@@ -211,35 +781,213 @@ export class GameService {
 
   private async advanceTurn(room: Room) {
     const game = room.game!;
+    this.chargeClock(room, true);
     game.turnIndex = (game.turnIndex + 1) % room.players.length;
+    // Skip players who lost this turn to a failed challenge
+    while (game.lostTurnPlayerIds.includes(room.players[game.turnIndex].id)) {
+      const lost = room.players[game.turnIndex].id;
+      game.lostTurnPlayerIds = game.lostTurnPlayerIds.filter((id) => id !== lost);
+      game.turnIndex = (game.turnIndex + 1) % room.players.length;
+    }
     game.activePlayerId = room.players[game.turnIndex].id;
-    game.turnEndsAt = Date.now() + game.turnDurationMs;
+    // The next turn starts once the play just made can no longer be challenged
+    game.turnStartedAt = game.pendingChallenge?.expiresAt ?? Date.now();
+    game.turnEndsAt = game.turnStartedAt + turnLengthMs(game, room.players[game.turnIndex]);
     game.version += 1;
   }
 
+  // Give the active player a full turn from now, charging their clock for the time used so far
+  private restartTurn(room: Room) {
+    const game = room.game!;
+    this.chargeClock(room, false);
+    game.turnEndsAt = game.turnStartedAt + turnLengthMs(game, room.players.find((p) => p.id === game.activePlayerId));
+  }
+
+  // Chess clock: take the time spent on the turn in progress off the active player's clock
+  private chargeClock(room: Room, withIncrement: boolean) {
+    const game = room.game!;
+    const now = Date.now();
+    const player = room.players.find((p) => p.id === game.activePlayerId);
+    if (player?.clockMs !== undefined) {
+      // Nothing is charged for a turn still waiting on a challenge window
+      player.clockMs -= Math.max(0, now - game.turnStartedAt);
+      if (withIncrement && room.timeControl.mode === 'chessClockIncrement') player.clockMs += room.timeControl.incrementMs;
+    }
+    game.turnStartedAt = now;
+  }
+
   // Returns true if the game has ended and final scores are applied
   checkAndFinalizeIfEnded(room: Room): boolean {
     const game = room.game!;
+    // A play still open to challenge may yet be withdrawn
+    if (game.pendingChallenge) return false;
     // Condition 1: bag empty and a player emptied rack
     const anyEmptyRack = room.players.some((p) => p.rack.length === 0);
-    if ((game.bag.length === 0 && anyEmptyRack) || game.consecutivePasses >= MAX_CONSECUTIVE_PASSES) {
-      // Final scoring adjustments
-      let finisher: Player | undefined = room.players.find((p) => p.rack.length === 0);
-      let sumOthers = 0;
-      for (const p of room.players) {
-        const malus = p.rack.reduce((acc, t) => acc + t.value, 0);
-        p.score -= malus;
-        if (p !== finisher) sumOthers += malus;
-      }
-      if (finisher) finisher.score += sumOthers;
-      room.status = 'finished';
+    if ((game.bag.length === 0 && anyEmptyRack) || game.consecutivePasses >= room.settings.maxConsecutivePasses) {
+      this.applyFinalScores(room);
       return true;
     }
     return false;
   }
+
+  // The active player's time is up. With a turn length their turn is passed for them; under a
+  // chess clock they have used their bank and all of the overtime, which ends the game.
+  async expireTurn(room: Room): Promise<{ ended: boolean }> {
+    const game = room.game;
+    if (!game || room.status !== 'playing') throw new Error('NO_GAME');
+    if (game.duplicate) throw new Error('DUPLICATE_ROUND');
+    const active = room.players.find((p) => p.id === game.activePlayerId);
+    if (active?.clockMs === undefined) return this.playMove(room, game.activePlayerId, 'pass');
+    game.pendingChallenge = undefined;
+    game.takebackRequest = undefined;
+    this.applyFinalScores(room);
+    game.version += 1;
+    return { ended: true };
+  }
+
+  // Rack values and chess clock overtime come off the scores, and the game is over
+  private applyFinalScores(room: Room) {
+    const game = room.game!;
+    let finisher: Player | undefined = room.players.find((p) => p.rack.length === 0);
+    let sumOthers = 0;
+    let othersRacks = '';
+    for (const p of room.players) {
+      const malus = p.rack.reduce((acc, t) => acc + t.value, 0);
+      p.score -= malus;
+      if (p !== finisher) { sumOthers += malus; othersRacks += rackString(p.rack); }
+      if (p.rack.length > 0) {
+        const adj = this.buildMoveSummary('rackPenalty', p.id, [], -malus, game);
+        adj.rack = rackString(p.rack);
+        game.log.push(adj);
+      }
+    }
+    if (finisher) {
+      finisher.score += sumOthers;
+      if (othersRacks) {
+        const adj = this.buildMoveSummary('rackBonus', finisher.id, [], sumOthers, game);
+        adj.rack = othersRacks;
+        game.log.push(adj);
+      }
+    }
+    // Chess clock overtime: a penalty for every started minute over
+    this.chargeClock(room, false);
+    for (const p of room.players) {
+      if (p.clockMs === undefined || p.clockMs >= 0) continue;
+      const penalty = OVERTIME_PENALTY_POINTS * Math.ceil(-p.clockMs / 60_000);
+      p.score -= penalty;
+      game.log.push(this.buildMoveSummary('timePenalty', p.id, [], -penalty, game));
+    }
+    this.finish(room);
+  }
+
+  // A player left a running game; `seat` is where they sat in room.players, which they
+  // are already out of. Their tiles go back to the bag and their turn to the next player.
+  // Bots don't play on alone: the game ends once fewer than two players or no human remain.
+  async forfeit(room: Room, player: Player, seat: number): Promise<{ ended: boolean }> {
+    const game = room.game;
+    if (!game || room.status !== 'playing') return { ended: false };
+    (game.forfeited ||= []).push({ id: player.id, nickname: player.nickname, isBot: player.isBot, score: player.score, stats: player.stats });
+    // A duplicate rack is a copy of the round's shared rack, whose tiles are not the leaver's to return
+    if (!game.duplicate) {
+      game.bag.push(...player.rack);
+      shuffle(game.bag);
+    }
+    player.rack = [];
+    game.lostTurnPlayerIds = game.lostTurnPlayerIds.filter((id) => id !== player.id);
+    if (game.takebackPoint?.playerId === player.id || game.takebackRequest?.playerId === player.id) {
+      game.takebackPoint = undefined;
+      game.takebackRequest = undefined;
+    }
+    // A play of the leaver's still open to challenge stands, as their score does
+    if (game.pendingChallenge?.playerId === player.id) game.pendingChallenge = undefined;
+    if (room.players.length < 2 || room.players.every((p) => p.isBot)) {
+      game.pendingChallenge = undefined;
+      game.takebackRequest = undefined;
+      this.finish(room);
+      game.version += 1;
+      return { ended: true };
+    }
+    if (game.duplicate) {
+      delete game.duplicate.submissions[player.id];
+      game.version += 1;
+    } else if (game.activePlayerId === player.id) {
+      // The next player now sits at `seat`
+      game.turnIndex = (seat - 1 + room.players.length) % room.players.length;
+      await this.advanceTurn(room);
+    } else {
+      game.turnIndex = room.players.findIndex((p) => p.id === game.activePlayerId);
+      game.version += 1;
+    }
+    return { ended: false };
+  }
+
+  private finish(room: Room) {
+    room.status = 'finished';
+    this.recorder?.recordGame(room);
+  }
 }
 
 // Helpers
+
+// Duplicate mode: each player's score as a percentage of the top total, one decimal
+export function percentOfTop(players: Player[], topTotal: number): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const p of players) out[p.id] = topTotal > 0 ? Math.round((p.score / topTotal) * 1000) / 10 : 0;
+  return out;
+}
+
+function resetPlayers(room: Room) {
+  for (const p of room.players) {
+    p.score = 0;
+    p.rack = [];
+    p.ready = !!p.isBot;
+    p.clockMs = room.timeControl.mode === 'perTurn' ? undefined : room.timeControl.initialMs;
+    p.stats = { wordsPlayed: 0, bestWordScore: 0, bestWord: null, totalTurns: 0, passes: 0 };
+  }
+}
+
+// Every run of two or more tiles on the board, across then down, in engine form
+function boardWords(board: BoardCell[][]): string[] {
+  const words: string[] = [];
+  const columns = board[0].map((_, x) => board.map((row) => row[x]));
+  for (const cells of [...board, ...columns]) {
+    let word = '';
+    for (const cell of [...cells, undefined]) {
+      if (cell?.tile) {
+        word += boardLetter(cell.tile);
+        continue;
+      }
+      if (word.length > 1) words.push(word);
+      word = '';
+    }
+  }
+  return words;
+}
+
+function buildBoard(layout: BoardLayout): BoardCell[][] {
+  const board: BoardCell[][] = [];
+  for (let y = 0; y < layout.height; y++) {
+    const row: BoardCell[] = [];
+    for (let x = 0; x < layout.width; x++) row.push({ x, y, bonusUsed: false });
+    board.push(row);
+  }
+  for (const b of layout.bonuses) {
+    board[b.y][b.x].bonus = b.bonus;
+  }
+  return board;
+}
+
+// Full, unshuffled bag for a language, with `sets` copies of its tile set
+function buildBag(language: Language, sets: number): Tile[] {
+  const bag: Tile[] = [];
+  for (const def of getLetterDistribution(language)) {
+    for (let i = 0; i < def.count * sets; i++) {
+      bag.push({ id: tileId(), letter: def.letter, value: def.value, isJoker: !!def.isJoker });
+    }
+  }
+  return bag;
+}
+
 function shuffle<T>(arr: T[]) {
   for (let i = arr.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
@@ -247,23 +995,38 @@ function shuffle<T>(arr: T[]) {
   }
 }
 
+// At least `min` vowels and `min` consonants, jokers standing in for whichever is short
+function rackIsBalanced(tiles: Tile[], vowels: Set<string>, min: number) {
+  let v = 0;
+  let c = 0;
+  let jokers = 0;
+  for (const t of tiles) {
+    if (t.isJoker) jokers++;
+    else if (vowels.has(t.letter.toUpperCase())) v++;
+    else c++;
+  }
+  return Math.max(0, min - v) + Math.max(0, min - c) <= jokers;
+}
+
+// Rack letters as a string, '?' for jokers
+function rackString(tiles: Tile[]) {
+  return tiles.map((t) => (t.isJoker ? '?' : t.letter)).join('');
+}
+
 function drawTiles(bag: Tile[], n: number) {
   const out: Tile[] = [];
   for (let i = 0; i < n && bag.length > 0; i++) out.push(bag.pop()!);
   return out;
 }
 
-function boardIsEmpty(board: BoardCell[][]) {
-  for (const row of board) for (const c of row) if (c.tile) return false;
-  return true;
-}
-
 function buildMainWord(
   board: BoardCell[][],
   placements: MovePlacement[],
   placementInfo: Map<string, { value: number; letter: string }>,
   dir: 'row'|'col',
 ) {
+  const width = board[0].length;
+  const height = board.length;
   // Determine the span covering placements, expand across existing letters
   if (dir === 'row') {
     const y = placements[0].y;
@@ -273,7 +1036,7 @@ function buildMainWord(
     // expand left
     while (x0 - 1 >= 0 && board[y][x0 - 1].tile) x0--;
     // expand right
-    while (x1 + 1 < 15 && board[y][x1 + 1].tile) x1++;
+    while (x1 + 1 < width && board[y][x1 + 1].tile) x1++;
     // Build word
     let word = '';
     let connected = false;
@@ -282,8 +1045,7 @@ function buildMainWord(
       const cell = board[y][x];
       const placedHere = placements.find((p) => p.x === x && p.y === y);
       if (cell.tile) {
-        const t: any = cell.tile;
-        const ch = t.isJoker ? '?' : (t.letter || '');
+        const ch = boardLetter(cell.tile);
         word += ch; connected = true;
       } else if (placedHere) {
         const info = placementInfo.get(`${x},${y}`);
@@ -299,7 +1061,7 @@ function buildMainWord(
     // Detect connection: either an existing tile in span or any adjacent cell around placements
     if (!connected) {
       for (const p of placements) {
-        if ((p.x>0 && board[y][p.x-1].tile) || (p.x<14 && board[y][p.x+1].tile) || (y>0 && board[y-1][p.x].tile) || (y<14 && board[y+1][p.x].tile))
+        if ((p.x>0 && board[y][p.x-1].tile) || (p.x<width-1 && board[y][p.x+1].tile) || (y>0 && board[y-1][p.x].tile) || (y<height-1 && board[y+1][p.x].tile))
           { connected = true; break; }
       }
     }
@@ -308,7 +1070,7 @@ function buildMainWord(
     for (let x = x0; x <= x1; x++) {
       const cell = board[y][x];
       const placed = placements.find((p) => p.x === x && p.y === y);
-      if (cell.tile) { const t: any = cell.tile; letters.push(t.isJoker ? '?' : (t.letter || '')); }
+      if (cell.tile) letters.push(boardLetter(cell.tile));
       else if (placed) { const info = placementInfo.get(`${x},${y}`); letters.push((info?.letter ?? '') === '' ? '?' : (info?.letter || '#')); }
       else letters.push('');
     }
@@ -320,21 +1082,21 @@ function buildMainWord(
   let y0 = ys[0];
   let y1 = ys[ys.length - 1];
   while (y0 - 1 >= 0 && board[y0 - 1][x].tile) y0--;
-  while (y1 + 1 < 15 && board[y1 + 1][x].tile) y1++;
+  while (y1 + 1 < height && board[y1 + 1][x].tile) y1++;
   let word = '';
   let connected = false;
   let contiguous = true;
   for (let y = y0; y <= y1; y++) {
     const cell = board[y][x];
     const placedHere = placements.find((p) => p.x === x && p.y === y);
-    if (cell.tile) { const t: any = cell.tile; const ch = t.isJoker ? '?' : (t.letter || ''); word += ch; connected = true; }
+    if (cell.tile) { word += boardLetter(cell.tile); connected = true; }
     else if (placedHere) { const info = placementInfo.get(`${x},${y}`); const ch = (info?.letter ?? '') === '' ? '?' : (info?.letter || '#'); word += ch; }
     else { contiguous = false; word += '.'; }
   }
   if (word.includes('.')) contiguous = false;
   if (!connected) {
     for (const p of placements) {
-      if ((x>0 && board[p.y][x-1].tile) || (x<14 && board[p.y][x+1].tile) || (p.y>0 && board[p.y-1][x].tile) || (p.y<14 && board[p.y+1][x].tile))
+      if ((x>0 && board[p.y][x-1].tile) || (x<width-1 && board[p.y][x+1].tile) || (p.y>0 && board[p.y-1][x].tile) || (p.y<height-1 && board[p.y+1][x].tile))
         { connected = true; break; }
     }
   }
@@ -342,7 +1104,7 @@ function buildMainWord(
   for (let y = y0; y <= y1; y++) {
     const cell = board[y][x];
     const placed = placements.find((p) => p.x === x && p.y === y);
-    if (cell.tile) { const t: any = cell.tile; letters.push(t.isJoker ? '?' : (t.letter || '')); }
+    if (cell.tile) letters.push(boardLetter(cell.tile));
     else if (placed) { const info = placementInfo.get(`${x},${y}`); letters.push((info?.letter ?? '') === '' ? '?' : (info?.letter || '#')); }
     else letters.push('');
   }
@@ -355,17 +1117,19 @@ function buildCrossWords(
   placementInfo: Map<string, { value: number; letter: string }>,
   dir: 'row'|'col',
 ) {
+  const width = board[0].length;
+  const height = board.length;
   const words: { word: string; x0: number; x1: number; y0: number; y1: number; anchor: {x:number;y:number} }[] = [];
   for (const p of placements) {
     if (dir === 'row') {
       // build vertical word at (p.x, p.y)
       let y0 = p.y; while (y0-1>=0 && board[y0-1][p.x].tile) y0--;
-      let y1 = p.y; while (y1+1<15 && board[y1+1][p.x].tile) y1++;
+      let y1 = p.y; while (y1+1<height && board[y1+1][p.x].tile) y1++;
       if (y1 - y0 >= 1) {
         const letters: string[] = [];
         for (let y = y0; y <= y1; y++) {
-          const t: any = board[y][p.x].tile;
-          if (t) letters.push(t.isJoker ? '?' : (t.letter || ''));
+          const t = board[y][p.x].tile;
+          if (t) letters.push(boardLetter(t));
           else if (y===p.y) { const info = placementInfo.get(`${p.x},${y}`); letters.push((info?.letter ?? '') === '' ? '?' : (info?.letter || '#')); }
           else letters.push('');
         }
@@ -374,12 +1138,12 @@ function buildCrossWords(
     } else {
       // dir === 'col' → horizontal cross
       let x0 = p.x; while (x0-1>=0 && board[p.y][x0-1].tile) x0--;
-      let x1 = p.x; while (x1+1<15 && board[p.y][x1+1].tile) x1++;
+      let x1 = p.x; while (x1+1<width && board[p.y][x1+1].tile) x1++;
       if (x1 - x0 >= 1) {
         const letters: string[] = [];
         for (let x = x0; x <= x1; x++) {
-          const t: any = board[p.y][x].tile;
-          if (t) letters.push(t.isJoker ? '?' : (t.letter || ''));
+          const t = board[p.y][x].tile;
+          if (t) letters.push(boardLetter(t));
           else if (x===p.x) { const info = placementInfo.get(`${x},${p.y}`); letters.push((info?.letter ?? '') === '' ? '?' : (info?.letter || '#')); }
           else letters.push('');
         }
@@ -460,16 +1224,6 @@ function scoreCrossWord(
   return { score: score * wordMul };
 }
 
-function letterAndWordMultipliers(cell: BoardCell) {
-  if (!cell.bonus || cell.bonusUsed) return { letterMul: 1, wordMul: 1 };
-  switch (cell.bonus) {
-    case 'DL': return { letterMul: 2, wordMul: 1 };
-    case 'TL': return { letterMul: 3, wordMul: 1 };
-    case 'DW': return { letterMul: 1, wordMul: 2 };
-    case 'TW': return { letterMul: 1, wordMul: 3 };
-  }
-}
-
 function getPlacementLetterValue(placementInfo: Map<string, { value: number; letter: string }>, x: number, y: number): number {
   return placementInfo.get(`${x},${y}`)?.value ?? 0;
 }
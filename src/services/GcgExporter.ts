@@ -0,0 +1,89 @@
+import { getMultiLetterTiles } from '../config/constants';
+import type { MoveSummary, Room } from '../models/types';
+import { splitTiles } from '../utils/letters';
+
+export interface GcgExportOptions {
+  // Include racks and exchanged letters. Keep off while the game is running so the
+  // export leaks nothing opponents could not see on the board.
+  revealRacks?: boolean;
+}
+
+// Render a room's game log in GCG notation (https://www.poslfit.com/scrabble/gcg/).
+export function exportGcg(room: Room, options: GcgExportOptions = {}): string {
+  const game = room.game;
+  if (!game) throw new Error('NO_GAME');
+  const reveal = !!options.revealRacks;
+  const multi = getMultiLetterTiles(room.settings.language);
+
+  // GCG nicknames cannot contain spaces and must be unique
+  const shortNames = new Map<string, string>();
+  const taken = new Set<string>();
+  const lines: string[] = ['#character-encoding UTF-8'];
+  room.players.forEach((p, i) => {
+    const base = p.nickname.trim().replace(/\s+/g, '_') || `player${i + 1}`;
+    let short = base;
+    for (let n = 2; taken.has(short); n++) short = `${base}${n}`;
+    taken.add(short);
+    shortNames.set(p.id, short);
+    lines.push(`#player${i + 1} ${short} ${p.nickname}`);
+  });
+  lines.push(`#title Room ${room.id}`);
+  lines.push(`#note Started ${new Date(game.startedAt).toISOString()}${room.status === 'finished' ? '' : ' (in progress)'}`);
+
+  // A takeback always follows the move it undoes. A taken back play reads like a withdrawn
+  // phony; a taken back pass or exchange changed nothing, so both lines are left out.
+  const silentTakeback = (m?: MoveSummary) => m?.action === 'takeback' && m.placements.length === 0;
+  const log = game.log.filter((m, i) => !silentTakeback(m) && !silentTakeback(game.log[i + 1]));
+
+  const totals = new Map<string, number>();
+  for (const m of log) {
+    const name = shortNames.get(m.playerId) || m.playerId || 'Top';
+    const total = (totals.get(m.playerId) || 0) + m.score;
+    totals.set(m.playerId, total);
+    // The going-out bonus lists the opponents' tiles in parentheses only
+    const rack = reveal && m.action !== 'rackBonus' ? m.rack || '' : '';
+    const fields = [rack, ...moveFields(m, reveal, multi), signed(m.score), String(total)].filter(Boolean);
+    lines.push(`>${name}: ${fields.join(' ')}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function moveFields(m: MoveSummary, reveal: boolean, multi: string[]): string[] {
+  switch (m.action) {
+    case 'play':
+      return [m.start ? coordinate(m.start) : '', m.words[0] || ''];
+    case 'pass':
+      return ['-'];
+    case 'exchange':
+      return [`-${reveal && m.exchanged ? m.exchanged : exchangedCount(m, multi)}`];
+    case 'withdraw':
+    case 'takeback':
+      return ['--'];
+    case 'challengePenalty':
+      // The failed challenger's row: points lost, or none when the turn is lost instead.
+      // '(challenge)' would be a bonus to the player challenged.
+      return ['-'];
+    case 'timePenalty':
+      return ['(time)'];
+    case 'rackPenalty':
+    case 'rackBonus':
+      return [`(${m.rack || ''})`];
+  }
+}
+
+// Tiles, not characters: a Spanish 'CH' is one tile. A move logged without letters or count
+// still reads as an exchange ('-0'), where a bare '-' would be a pass.
+function exchangedCount(m: MoveSummary, multi: string[]) {
+  return String(m.exchangedCount ?? (m.exchanged ? splitTiles(m.exchanged, multi).length : 0));
+}
+
+// '8H' for a word across row 8 from column H, 'H8' for a word down column H from row 8
+function coordinate(start: NonNullable<MoveSummary['start']>) {
+  const col = String.fromCharCode('A'.charCodeAt(0) + start.x);
+  const row = String(start.y + 1);
+  return start.direction === 'row' ? `${row}${col}` : `${col}${row}`;
+}
+
+function signed(n: number) {
+  return n < 0 ? String(n) : `+${n}`;
+}
@@ -0,0 +1,246 @@
+// Word list as a minimized letter graph (DAWG), built once at load.
+// Words are stored uppercase; each edge is a single letter. Identical suffixes
+// share their nodes, so the graph is much smaller than a plain trie.
+// Queries: exact lookup, wildcard patterns, anagrams with blanks and hooks.
+
+export interface LexiconNode {
+  children: Map<string, LexiconNode>;
+  terminal: boolean; // a word ends here
+}
+
+function newNode(): LexiconNode {
+  return { children: new Map(), terminal: false };
+}
+
+// Binary layout (little-endian):
+//   'LEX1' | u32 header length | JSON header | padding to 4 bytes
+//   u32 edgeStart[nodeCount + 1] | u32 edgeTarget[edgeCount] | u8 edgeLetter[edgeCount] | u8 terminal[nodeCount]
+// Node 0 is the root; edges of node i are edgeStart[i]..edgeStart[i + 1].
+const BINARY_MAGIC = 'LEX1';
+
+interface BinaryHeader {
+  alphabet: string[];
+  nodeCount: number;
+  edgeCount: number;
+  wordCount: number;
+}
+
+export class Lexicon {
+  private constructor(readonly root: LexiconNode, private wordCount: number) {}
+
+  // Builds the minimized graph incrementally over the sorted words (Daciuk et al.)
+  static fromWords(words: Iterable<string>): Lexicon {
+    const sorted = Array.from(new Set(Array.from(words, (w) => w.trim().toUpperCase()).filter(Boolean))).sort();
+    const root = newNode();
+    const register = new Map<string, LexiconNode>();
+    const ids = new Map<LexiconNode, number>();
+
+    const signature = (node: LexiconNode) => {
+      let sig = node.terminal ? '1' : '0';
+      for (const [L, child] of node.children) sig += `|${L}${ids.get(child)}`;
+      return sig;
+    };
+    // Merge the most recently added branch below `node` into the register
+    const replaceOrRegister = (node: LexiconNode) => {
+      const entries = Array.from(node.children.entries());
+      const [letter, child] = entries[entries.length - 1];
+      if (child.children.size > 0) replaceOrRegister(child);
+      const sig = signature(child);
+      const existing = register.get(sig);
+      if (existing) node.children.set(letter, existing);
+      else {
+        ids.set(child, ids.size + 1);
+        register.set(sig, child);
+      }
+    };
+
+    let previous = '';
+    for (const word of sorted) {
+      let common = 0;
+      while (common < word.length && common < previous.length && word[common] === previous[common]) common++;
+      let node = root;
+      for (let i = 0; i < common; i++) node = node.children.get(word[i])!;
+      if (node.children.size > 0) replaceOrRegister(node);
+      for (let i = common; i < word.length; i++) {
+        const next = newNode();
+        node.children.set(word[i], next);
+        node = next;
+      }
+      node.terminal = true;
+      previous = word;
+    }
+    if (root.children.size > 0) replaceOrRegister(root);
+    return new Lexicon(root, sorted.length);
+  }
+
+  static fromBinary(buf: Buffer): Lexicon {
+    if (buf.toString('latin1', 0, 4) !== BINARY_MAGIC) throw new Error('LEXICON_BAD_FORMAT');
+    const headerLen = buf.readUInt32LE(4);
+    const header: BinaryHeader = JSON.parse(buf.toString('utf8', 8, 8 + headerLen));
+    let offset = align4(8 + headerLen);
+    const { alphabet, nodeCount, edgeCount, wordCount } = header;
+
+    const edgeStart: number[] = [];
+    for (let i = 0; i <= nodeCount; i++, offset += 4) edgeStart.push(buf.readUInt32LE(offset));
+    const edgeTarget: number[] = [];
+    for (let i = 0; i < edgeCount; i++, offset += 4) edgeTarget.push(buf.readUInt32LE(offset));
+    const edgeLetterOffset = offset;
+    const terminalOffset = offset + edgeCount;
+
+    const nodes: LexiconNode[] = [];
+    for (let i = 0; i < nodeCount; i++) {
+      const node = newNode();
+      node.terminal = buf[terminalOffset + i] === 1;
+      nodes.push(node);
+    }
+    for (let i = 0; i < nodeCount; i++) {
+      for (let e = edgeStart[i]; e < edgeStart[i + 1]; e++) {
+        nodes[i].children.set(alphabet[buf[edgeLetterOffset + e]], nodes[edgeTarget[e]]);
+      }
+    }
+    return new Lexicon(nodes[0] || newNode(), wordCount);
+  }
+
+  toBinary(): Buffer {
+    // Number nodes breadth-first so the root is 0
+    const index = new Map<LexiconNode, number>([[this.root, 0]]);
+    const order: LexiconNode[] = [this.root];
+    const alphabet: string[] = [];
+    const letterIndex = new Map<string, number>();
+    for (let i = 0; i < order.length; i++) {
+      for (const [L, child] of order[i].children) {
+        if (!letterIndex.has(L)) { letterIndex.set(L, alphabet.length); alphabet.push(L); }
+        if (!index.has(child)) { index.set(child, order.length); order.push(child); }
+      }
+    }
+    if (alphabet.length > 256) throw new Error('LEXICON_ALPHABET_TOO_LARGE');
+    const edgeCount = order.reduce((acc, n) => acc + n.children.size, 0);
+    const header: BinaryHeader = { alphabet, nodeCount: order.length, edgeCount, wordCount: this.wordCount };
+    const headerBuf = Buffer.from(JSON.stringify(header), 'utf8');
+    const dataStart = align4(8 + headerBuf.length);
+    const buf = Buffer.alloc(dataStart + 4 * (order.length + 1) + 4 * edgeCount + edgeCount + order.length);
+    buf.write(BINARY_MAGIC, 0, 'latin1');
+    buf.writeUInt32LE(headerBuf.length, 4);
+    headerBuf.copy(buf, 8);
+
+    let offset = dataStart;
+    let edge = 0;
+    for (const node of order) {
+      buf.writeUInt32LE(edge, offset); offset += 4;
+      edge += node.children.size;
+    }
+    buf.writeUInt32LE(edge, offset); offset += 4;
+    const letterOffset = offset + 4 * edgeCount;
+    let e = 0;
+    for (const node of order) {
+      for (const [L, child] of node.children) {
+        buf.writeUInt32LE(index.get(child)!, offset); offset += 4;
+        buf[letterOffset + e] = letterIndex.get(L)!;
+        e++;
+      }
+    }
+    const terminalOffset = letterOffset + edgeCount;
+    order.forEach((node, i) => { buf[terminalOffset + i] = node.terminal ? 1 : 0; });
+    return buf;
+  }
+
+  get size(): number {
+    return this.wordCount;
+  }
+
+  // Node reached by following `prefix` from the root, if any word starts with it
+  find(prefix: string): LexiconNode | undefined {
+    let node: LexiconNode | undefined = this.root;
+    for (const ch of prefix.toUpperCase()) {
+      node = node.children.get(ch);
+      if (!node) return undefined;
+    }
+    return node;
+  }
+
+  has(word: string): boolean {
+    return !!this.find(word)?.terminal;
+  }
+
+  // Words matching a pattern where '?' is any one letter and '*' any run of letters (possibly empty)
+  matchPattern(pattern: string, limit = Number.POSITIVE_INFINITY): string[] {
+    const P = pattern.toUpperCase();
+    const out = new Set<string>();
+    const walk = (node: LexiconNode, i: number, prefix: string) => {
+      if (out.size >= limit) return;
+      if (i === P.length) {
+        if (node.terminal) out.add(prefix);
+        return;
+      }
+      const c = P[i];
+      if (c === '*') {
+        walk(node, i + 1, prefix);
+        for (const [L, child] of node.children) walk(child, i, prefix + L);
+      } else if (c === '?') {
+        for (const [L, child] of node.children) walk(child, i + 1, prefix + L);
+      } else {
+        const child = node.children.get(c);
+        if (child) walk(child, i + 1, prefix + c);
+      }
+    };
+    walk(this.root, 0, '');
+    return Array.from(out);
+  }
+
+  // Words using exactly all the given letters; '?' stands for a blank
+  anagrams(letters: string, limit = Number.POSITIVE_INFINITY): string[] {
+    const counts = new Map<string, number>();
+    let blanks = 0;
+    let total = 0;
+    for (const ch of letters.toUpperCase()) {
+      total++;
+      if (ch === '?') blanks++;
+      else counts.set(ch, (counts.get(ch) || 0) + 1);
+    }
+    const out = new Set<string>();
+    const walk = (node: LexiconNode, depth: number, prefix: string) => {
+      if (out.size >= limit) return;
+      if (depth === total) {
+        if (node.terminal) out.add(prefix);
+        return;
+      }
+      for (const [L, child] of node.children) {
+        const n = counts.get(L) || 0;
+        if (n > 0) {
+          counts.set(L, n - 1);
+          walk(child, depth + 1, prefix + L);
+          counts.set(L, n);
+        } else if (blanks > 0) {
+          blanks--;
+          walk(child, depth + 1, prefix + L);
+          blanks++;
+        }
+      }
+    };
+    walk(this.root, 0, '');
+    return Array.from(out);
+  }
+
+  // Letters that can be put in front of `word` to form another word
+  frontHooks(word: string): string[] {
+    const W = word.toUpperCase();
+    const out: string[] = [];
+    for (const [L, child] of this.root.children) {
+      let node: LexiconNode | undefined = child;
+      for (const ch of W) { node = node.children.get(ch); if (!node) break; }
+      if (node?.terminal) out.push(L);
+    }
+    return out;
+  }
+
+  // Letters that can be appended to `word` to form another word
+  backHooks(word: string): string[] {
+    const node = this.find(word);
+    if (!node) return [];
+    return Array.from(node.children.entries()).filter(([, child]) => child.terminal).map(([L]) => L);
+  }
+}
+
+function align4(n: number) {
+  return (n + 3) & ~3;
+}
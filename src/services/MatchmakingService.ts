@@ -0,0 +1,71 @@
+import { QUICK_MATCH_TIMEOUT_MS } from '../config/constants';
+import type { Language } from '../config/constants';
+import type { TimeControl } from '../models/types';
+
+export interface QuickMatchEntry {
+  socketId: string;
+  nickname: string;
+  playerId?: string;
+  language: Language;
+  timeControl: TimeControl;
+  tableSize: number; // players wanted at the table; bots take the seats left after a timeout
+  queuedAt: number;
+}
+
+// Quick match queue. Players wanting the same language, time control and table size
+// wait together; a group is handed back once it is full, or once its oldest player
+// has waited QUICK_MATCH_TIMEOUT_MS. Creating and starting the room is up to the caller.
+export class MatchmakingService {
+  private queue: QuickMatchEntry[] = [];
+
+  constructor(private now: () => number = () => Date.now()) {}
+
+  // Queue a player (again, if the socket was already waiting). Returns the group when it is full.
+  enqueue(entry: Omit<QuickMatchEntry, 'queuedAt'>): QuickMatchEntry[] | undefined {
+    this.cancel(entry.socketId);
+    this.queue.push({ ...entry, queuedAt: this.now() });
+    const group = this.groupOf(entry.socketId);
+    if (group.length < entry.tableSize) return undefined;
+    this.remove(group);
+    return group;
+  }
+
+  cancel(socketId: string): boolean {
+    const before = this.queue.length;
+    this.queue = this.queue.filter((e) => e.socketId !== socketId);
+    return this.queue.length !== before;
+  }
+
+  // Players waiting with the same preferences as this socket, oldest first
+  groupOf(socketId: string): QuickMatchEntry[] {
+    const entry = this.queue.find((e) => e.socketId === socketId);
+    if (!entry) return [];
+    const key = groupKey(entry);
+    return this.queue.filter((e) => groupKey(e) === key);
+  }
+
+  // Groups whose oldest player waited too long, taken out of the queue
+  takeExpired(): QuickMatchEntry[][] {
+    const cutoff = this.now() - QUICK_MATCH_TIMEOUT_MS;
+    const groups: QuickMatchEntry[][] = [];
+    for (const entry of [...this.queue]) {
+      if (entry.queuedAt > cutoff || !this.queue.includes(entry)) continue;
+      const group = this.groupOf(entry.socketId);
+      this.remove(group);
+      groups.push(group);
+    }
+    return groups;
+  }
+
+  expiresAt(entry: QuickMatchEntry): number {
+    return entry.queuedAt + QUICK_MATCH_TIMEOUT_MS;
+  }
+
+  private remove(group: QuickMatchEntry[]) {
+    this.queue = this.queue.filter((e) => !group.includes(e));
+  }
+}
+
+function groupKey(e: QuickMatchEntry) {
+  return `${e.language}:${e.timeControl.mode}:${e.timeControl.initialMs}:${e.timeControl.incrementMs}:${e.tableSize}`;
+}
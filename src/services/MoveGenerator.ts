@@ -0,0 +1,217 @@
+import type { BoardCell, GeneratedMove, MovePlacement, Tile } from '../models/types';
+import { boardIsEmpty, boardLetter, letterAndWordMultipliers } from '../utils/board';
+import { fromSquareSymbols, toSquareSymbol } from '../utils/letters';
+import type { Lexicon, LexiconNode } from './Lexicon';
+
+// Enumerates every legal placement of a rack on a board (Appel & Jacobson):
+// each line is scanned for anchor squares (empty squares next to a tile, or the
+// start square on an empty board), words are grown through the lexicon trie around
+// each anchor, and perpendicular words are constrained by per-square cross-check sets.
+// Letters are handled in engine form (one character per square, see utils/letters.ts)
+// and decoded in the returned moves.
+
+export interface MoveGeneratorOptions {
+  bingoBonus?: number; // default 50
+  rackSize?: number; // tiles a play must use to earn the bingo bonus, default 7
+  start?: { x: number; y: number }; // square the first move must cover, default center
+}
+
+interface CrossCheck {
+  allowed: Set<string> | null; // null: no perpendicular neighbour, any letter fits
+  score: number; // face value of the perpendicular tiles already on the board
+  prefix: string;
+  suffix: string;
+}
+
+interface PlacedTile { pos: number; letter: string; tile: Tile }
+
+type Direction = GeneratedMove['direction'];
+
+export function generateMoves(board: BoardCell[][], rack: Tile[], lexicon: Lexicon, options: MoveGeneratorOptions = {}): GeneratedMove[] {
+  const height = board.length;
+  const width = height > 0 ? board[0].length : 0;
+  const bingoBonus = options.bingoBonus ?? 50;
+  const rackSize = options.rackSize ?? 7;
+  const start = options.start ?? { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+  const emptyBoard = boardIsEmpty(board);
+
+  // Rack tiles grouped by letter; jokers kept apart
+  const byLetter = new Map<string, Tile[]>();
+  const blanks: Tile[] = [];
+  for (const t of rack) {
+    if (t.isJoker) { blanks.push(t); continue; }
+    const L = toSquareSymbol(t.letter).toUpperCase();
+    const list = byLetter.get(L) || [];
+    list.push(t);
+    byLetter.set(L, list);
+  }
+  const rackCount = () => blanks.length + Array.from(byLetter.values()).reduce((acc, l) => acc + l.length, 0);
+
+  // Try `letter` with a real tile, then with a joker standing for it
+  function withRackTile(letter: string, fn: (tile: Tile, isBlank: boolean) => void) {
+    const list = byLetter.get(letter);
+    if (list && list.length > 0) {
+      const t = list.pop()!;
+      fn(t, false);
+      list.push(t);
+    }
+    if (blanks.length > 0) {
+      const t = blanks.pop()!;
+      fn(t, true);
+      blanks.push(t);
+    }
+  }
+
+  const found = new Map<string, GeneratedMove>();
+
+  for (const dir of ['row', 'col'] as Direction[]) {
+    const lineCount = dir === 'row' ? height : width;
+    const lineLength = dir === 'row' ? width : height;
+    const cellAt = (line: number, pos: number): BoardCell | undefined =>
+      dir === 'row' ? board[line]?.[pos] : board[pos]?.[line];
+    const toXY = (line: number, pos: number) => (dir === 'row' ? { x: pos, y: line } : { x: line, y: pos });
+    const startLine = dir === 'row' ? start.y : start.x;
+    const startPos = dir === 'row' ? start.x : start.y;
+
+    for (let line = 0; line < lineCount; line++) {
+      const cross: Array<CrossCheck | undefined> = [];
+      for (let pos = 0; pos < lineLength; pos++) cross.push(crossCheckAt(line, pos));
+
+      const isAnchor = (pos: number) => {
+        if (cellAt(line, pos)?.tile) return false;
+        if (emptyBoard) return line === startLine && pos === startPos;
+        return !!(cellAt(line, pos - 1)?.tile || cellAt(line, pos + 1)?.tile || cellAt(line - 1, pos)?.tile || cellAt(line + 1, pos)?.tile);
+      };
+
+      for (let anchor = 0; anchor < lineLength; anchor++) {
+        if (!isAnchor(anchor)) continue;
+        if (cross[anchor]?.allowed?.size === 0) continue;
+
+        const extendRight = (node: LexiconNode, pos: number, placed: PlacedTile[], wordStart: number) => {
+          const cell = cellAt(line, pos);
+          if (!cell || !cell.tile) {
+            if (node.terminal && placed.length > 0 && pos > anchor) record(line, wordStart, pos - 1, placed);
+            if (!cell) return;
+            const cc = cross[pos]!;
+            for (const [L, child] of node.children) {
+              if (cc.allowed && !cc.allowed.has(L)) continue;
+              withRackTile(L, (tile, isBlank) => {
+                placed.push({ pos, letter: isBlank ? L.toLowerCase() : L, tile });
+                extendRight(child, pos + 1, placed, wordStart);
+                placed.pop();
+              });
+            }
+            return;
+          }
+          const child = node.children.get(boardLetter(cell.tile).toUpperCase());
+          if (child) extendRight(child, pos + 1, placed, wordStart);
+        };
+
+        // Tiles already left of the anchor form a fixed prefix
+        if (cellAt(line, anchor - 1)?.tile) {
+          let from = anchor - 1;
+          while (cellAt(line, from - 1)?.tile) from--;
+          let prefix = '';
+          for (let pos = from; pos < anchor; pos++) prefix += boardLetter(cellAt(line, pos)!.tile!).toUpperCase();
+          const node = lexicon.find(prefix);
+          if (node) extendRight(node, anchor, [], from);
+          continue;
+        }
+
+        // Otherwise grow a left part over the empty, non-anchor squares before the anchor
+        let limit = 0;
+        while (anchor - limit - 1 >= 0 && !cellAt(line, anchor - limit - 1)?.tile && !isAnchor(anchor - limit - 1)) limit++;
+        limit = Math.min(limit, rackCount() - 1);
+        const left: Array<{ letter: string; tile: Tile }> = [];
+        const leftPart = (node: LexiconNode, remaining: number) => {
+          const wordStart = anchor - left.length;
+          extendRight(node, anchor, left.map((l, i) => ({ pos: wordStart + i, ...l })), wordStart);
+          if (remaining <= 0) return;
+          for (const [L, child] of node.children) {
+            withRackTile(L, (tile, isBlank) => {
+              left.push({ letter: isBlank ? L.toLowerCase() : L, tile });
+              leftPart(child, remaining - 1);
+              left.pop();
+            });
+          }
+        };
+        leftPart(lexicon.root, limit);
+      }
+
+      function record(line: number, from: number, to: number, placed: PlacedTile[]) {
+        if (to <= from) return; // single letters are not words
+        const byPos = new Map(placed.map((p) => [p.pos, p]));
+        let word = '';
+        let mainScore = 0;
+        let wordMul = 1;
+        let crossTotal = 0;
+        const crossWords: string[] = [];
+        for (let pos = from; pos <= to; pos++) {
+          const cell = cellAt(line, pos)!;
+          const p = byPos.get(pos);
+          if (!p) {
+            word += boardLetter(cell.tile!);
+            mainScore += cell.tile!.value;
+            continue;
+          }
+          word += p.letter;
+          const m = letterAndWordMultipliers(cell);
+          mainScore += p.tile.value * m.letterMul;
+          wordMul *= m.wordMul;
+          const cc = cross[pos]!;
+          if (cc.allowed) {
+            crossTotal += (cc.score + p.tile.value * m.letterMul) * m.wordMul;
+            crossWords.push(cc.prefix + p.letter + cc.suffix);
+          }
+        }
+        let score = mainScore * wordMul + crossTotal;
+        if (placed.length === rackSize) score += bingoBonus;
+
+        const placements: MovePlacement[] = placed.map((p) => {
+          const pl: MovePlacement = { ...toXY(line, p.pos), tileId: p.tile.id };
+          if (p.tile.isJoker) pl.assignedLetter = fromSquareSymbols(p.letter).toUpperCase();
+          return pl;
+        });
+        // The same placement can be reached from both directions or with twin tiles
+        const key = placements
+          .map((pl, i) => `${pl.x},${pl.y}:${placed[i].letter}`)
+          .sort()
+          .join('|');
+        if (!found.has(key)) {
+          const words = [word, ...crossWords].map(fromSquareSymbols);
+          found.set(key, { placements, direction: dir, word: words[0], words, score, start: { ...toXY(line, from), direction: dir } });
+        }
+      }
+    }
+
+    function crossCheckAt(line: number, pos: number): CrossCheck | undefined {
+      if (cellAt(line, pos)?.tile) return undefined;
+      let prefix = '';
+      let suffix = '';
+      let score = 0;
+      for (let l = line - 1; cellAt(l, pos)?.tile; l--) {
+        const t = cellAt(l, pos)!.tile!;
+        prefix = boardLetter(t) + prefix;
+        score += t.value;
+      }
+      for (let l = line + 1; cellAt(l, pos)?.tile; l++) {
+        const t = cellAt(l, pos)!.tile!;
+        suffix += boardLetter(t);
+        score += t.value;
+      }
+      if (!prefix && !suffix) return { allowed: null, score: 0, prefix, suffix };
+      const allowed = new Set<string>();
+      const node = lexicon.find(prefix);
+      if (node) {
+        for (const [L, child] of node.children) {
+          let n: LexiconNode | undefined = child;
+          for (const ch of suffix.toUpperCase()) { n = n.children.get(ch); if (!n) break; }
+          if (n?.terminal) allowed.add(L);
+        }
+      }
+      return { allowed, score, prefix, suffix };
+    }
+  }
+
+  return Array.from(found.values()).sort((a, b) => b.score - a.score || a.placements.length - b.placements.length || a.word.localeCompare(b.word));
+}
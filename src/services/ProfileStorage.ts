@@ -0,0 +1,56 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { PlayerProfile } from '../models/types';
+
+// Where ProfileStore keeps player profiles. Unlike rooms, profiles are never deleted.
+export interface ProfileStorage {
+  loadAll(): PlayerProfile[];
+  save(profile: PlayerProfile): void;
+}
+
+export class MemoryProfileStorage implements ProfileStorage {
+  private profiles = new Map<string, string>();
+
+  loadAll(): PlayerProfile[] {
+    return Array.from(this.profiles.values()).map((raw) => JSON.parse(raw));
+  }
+
+  save(profile: PlayerProfile): void {
+    this.profiles.set(profile.playerId, JSON.stringify(profile));
+  }
+}
+
+// One JSON file per player, written through a temp file like FileRoomStorage
+export class FileProfileStorage implements ProfileStorage {
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  loadAll(): PlayerProfile[] {
+    const profiles: PlayerProfile[] = [];
+    for (const entry of fs.readdirSync(this.dir)) {
+      if (!entry.endsWith('.json')) continue;
+      const file = path.join(this.dir, entry);
+      try {
+        profiles.push(JSON.parse(fs.readFileSync(file, 'utf8')));
+      } catch (e: any) {
+        console.warn(`[storage] Skipping unreadable profile file ${file}:`, e?.message || e);
+      }
+    }
+    return profiles;
+  }
+
+  save(profile: PlayerProfile): void {
+    const file = this.fileFor(profile.playerId);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(profile), 'utf8');
+    fs.renameSync(tmp, file);
+  }
+
+  // Player ids come from clients: ids that aren't plain file names are hashed
+  private fileFor(playerId: string) {
+    const safe = /^[A-Za-z0-9_-]{1,64}$/.test(playerId) ? playerId : `h-${crypto.createHash('sha1').update(playerId).digest('hex')}`;
+    return path.join(this.dir, `${safe}.json`);
+  }
+}
@@ -0,0 +1,78 @@
+import { CAREER_WORDS_SHOWN, RATING_PROVISIONAL_GAMES } from '../config/constants';
+import type { PlayerProfile, ProfileSummary } from '../models/types';
+import { emptyCareerStats, topWords } from './CareerStatsService';
+import { MemoryProfileStorage } from './ProfileStorage';
+import type { ProfileStorage } from './ProfileStorage';
+
+// Profiles per stable playerId, shared by ratings and career statistics
+export class ProfileStore {
+  private profiles = new Map<string, PlayerProfile>();
+
+  constructor(private storage: ProfileStorage = new MemoryProfileStorage(), private now: () => number = () => Date.now()) {}
+
+  restore(): number {
+    for (const profile of this.storage.loadAll()) {
+      // Profiles saved before career statistics existed
+      profile.career = profile.career || emptyCareerStats();
+      this.profiles.set(profile.playerId, profile);
+    }
+    if (this.profiles.size > 0) console.log(`[profile] Restored ${this.profiles.size} profile(s) from storage`);
+    return this.profiles.size;
+  }
+
+  getProfile(playerId: string): PlayerProfile | undefined {
+    return this.profiles.get(playerId);
+  }
+
+  listProfiles(): PlayerProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  // The player's profile, created on first use; keeps the latest nickname
+  profileFor(playerId: string, nickname: string): PlayerProfile {
+    let profile = this.profiles.get(playerId);
+    if (!profile) {
+      profile = { playerId, nickname, ratings: {}, career: emptyCareerStats(), createdAt: this.now() };
+      this.profiles.set(playerId, profile);
+    }
+    profile.nickname = nickname;
+    return profile;
+  }
+
+  saveProfile(profile: PlayerProfile) {
+    try {
+      this.storage.save(profile);
+    } catch (e: any) {
+      console.error(`[profile] Failed to save ${profile.playerId}:`, e?.message || e);
+    }
+  }
+}
+
+export function toProfileSummary(profile: PlayerProfile): ProfileSummary {
+  const c = profile.career;
+  const ratio = (n: number, d: number) => (d > 0 ? Math.round((n / d) * 1000) / 1000 : 0);
+  const ratings: ProfileSummary['ratings'] = {};
+  for (const [pool, r] of Object.entries(profile.ratings)) {
+    ratings[pool] = { rating: Math.round(r.rating), rd: Math.round(r.rd), games: r.games, provisional: r.games < RATING_PROVISIONAL_GAMES };
+  }
+  return {
+    playerId: profile.playerId,
+    nickname: profile.nickname,
+    createdAt: profile.createdAt,
+    ratings,
+    career: {
+      gamesPlayed: c.gamesPlayed,
+      gamesWon: c.gamesWon,
+      winRate: ratio(c.gamesWon, c.gamesPlayed),
+      averageScore: ratio(c.totalScore, c.gamesPlayed),
+      averageMoveScore: ratio(c.totalPlayScore, c.plays),
+      highestGameScore: c.highestGameScore,
+      bingos: c.bingos,
+      bingoRate: ratio(c.bingos, c.plays),
+      exchangeRate: ratio(c.exchanges, c.moves),
+      averageMoveTimeMs: c.timedMoves > 0 ? Math.round(c.totalMoveTimeMs / c.timedMoves) : null,
+      bestMove: c.bestMove,
+      mostPlayedWords: Object.entries(topWords(c.wordCounts, CAREER_WORDS_SHOWN)).map(([word, count]) => ({ word, count })),
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { RATING_INITIAL, RATING_INITIAL_RD, RATING_INITIAL_VOLATILITY, RATING_PROVISIONAL_GAMES, RATING_TAU } from '../config/constants';
+import type { Language, TimeControlMode } from '../config/constants';
+import type { PlayerRating, RatingChange, Room } from '../models/types';
+import { glicko2Update } from '../utils/glicko2';
+import type { ProfileStore } from './ProfileStore';
+
+// Players are rated separately per language and time control
+export function ratingPool(language: Language, mode: TimeControlMode): string {
+  return `${language}:${mode}`;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  nickname: string;
+  rating: number;
+  rd: number;
+  games: number;
+  provisional: boolean;
+}
+
+// Glicko-2 ratings kept in the players' profiles. Each rated game is one rating period;
+// with more than two players every pair of players counts as a game between them.
+export class RatingService {
+  constructor(private profiles: ProfileStore, private now: () => number = () => Date.now()) {}
+
+  rating(playerId: string, pool: string): PlayerRating | undefined {
+    return this.profiles.getProfile(playerId)?.ratings[pool];
+  }
+
+  // Update the ratings of a finished game's players from their final scores. A player who
+  // forfeited loses to everyone who stayed, whatever the scores.
+  recordGame(room: Room): Record<string, RatingChange> {
+    const pool = ratingPool(room.settings.language, room.timeControl.mode);
+    const forfeited = room.game?.forfeited || [];
+    const left = new Set(forfeited.map((p) => p.id));
+    const players = [...room.players, ...forfeited].filter((p) => !p.isBot);
+    const outcome = (p: { id: string; score: number }, o: { id: string; score: number }) => {
+      if (left.has(p.id) !== left.has(o.id)) return left.has(p.id) ? 0 : 1;
+      return p.score > o.score ? 1 : p.score === o.score ? 0.5 : 0;
+    };
+    const now = this.now();
+    const before = new Map(players.map((p) => [p.id, this.rating(p.id, pool) || initialRating(now)]));
+    const changes: Record<string, RatingChange> = {};
+    for (const p of players) {
+      const current = before.get(p.id)!;
+      const results = players
+        .filter((o) => o.id !== p.id)
+        .map((o) => ({ opponent: before.get(o.id)!, score: outcome(p, o) }));
+      const next = glicko2Update(current, results, RATING_TAU);
+      const profile = this.profiles.profileFor(p.id, p.nickname);
+      profile.ratings[pool] = { ...next, games: current.games + 1, updatedAt: now };
+      this.profiles.saveProfile(profile);
+      changes[p.id] = { before: Math.round(current.rating), after: Math.round(next.rating), rd: Math.round(next.rd) };
+    }
+    return changes;
+  }
+
+  leaderboard(pool: string, limit: number, offset: number): { entries: LeaderboardEntry[]; total: number } {
+    const rated = this.profiles.listProfiles()
+      .filter((p) => p.ratings[pool])
+      .sort((a, b) => b.ratings[pool].rating - a.ratings[pool].rating || a.playerId.localeCompare(b.playerId));
+    const entries = rated.slice(offset, offset + limit).map((p, i) => {
+      const r = p.ratings[pool];
+      return {
+        rank: offset + i + 1,
+        playerId: p.playerId,
+        nickname: p.nickname,
+        rating: Math.round(r.rating),
+        rd: Math.round(r.rd),
+        games: r.games,
+        provisional: r.games < RATING_PROVISIONAL_GAMES,
+      };
+    });
+    return { entries, total: rated.length };
+  }
+}
+
+function initialRating(now: number): PlayerRating {
+  return { rating: RATING_INITIAL, rd: RATING_INITIAL_RD, volatility: RATING_INITIAL_VOLATILITY, games: 0, updatedAt: now };
+}
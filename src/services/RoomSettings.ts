@@ -0,0 +1,62 @@
+import {
+  BINGO_BONUS, BINGO_BONUS_MAX, HINT_POLICIES, HINTS_PER_PLAYER_DEFAULT, HINTS_PER_PLAYER_MAX, LANGUAGE, LANGUAGES,
+  MAX_CONSECUTIVE_PASSES, MAX_PLAYERS, PASS_LIMIT_MAX, PASS_LIMIT_MIN, TURN_DURATION_MAX_MS, TURN_DURATION_MIN_MS, TURN_DURATION_MS,
+} from '../config/constants';
+import { BOARD_LAYOUTS, DEFAULT_BOARD_LAYOUT } from '../config/boardLayouts';
+import type { RoomSettings } from '../models/types';
+import type { DictionaryRegistry } from './DictionaryRegistry';
+
+export function defaultRoomSettings(dictionaries: DictionaryRegistry): RoomSettings {
+  return {
+    language: LANGUAGE,
+    dictionary: dictionaries.defaultFor(LANGUAGE) || '',
+    turnDurationMs: TURN_DURATION_MS,
+    maxConsecutivePasses: MAX_CONSECUTIVE_PASSES,
+    bingoBonus: BINGO_BONUS,
+    hintPolicy: 'off',
+    hintsPerPlayer: HINTS_PER_PLAYER_DEFAULT,
+    maxPlayers: MAX_PLAYERS,
+    boardLayout: DEFAULT_BOARD_LAYOUT,
+    previewWordCheck: false,
+    allowTakebacks: true,
+    rated: false,
+  };
+}
+
+// Apply the requested changes on top of `current`. Unknown fields and out-of-range values
+// throw INVALID_SETTINGS with the offending field as `reason`; `changes` comes straight
+// from the client, so its shape is checked here too.
+export function applyRoomSettings(current: RoomSettings, changes: Partial<RoomSettings>, dictionaries: DictionaryRegistry): RoomSettings {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) throw invalid('settings');
+  for (const key of Object.keys(changes)) if (!Object.prototype.hasOwnProperty.call(current, key)) throw invalid(key);
+  const next: RoomSettings = { ...current, ...changes };
+
+  if (!LANGUAGES.includes(next.language)) throw invalid('language');
+  // A new language without a dictionary picks that language's default one
+  if (changes.language !== undefined && changes.dictionary === undefined && dictionaries.info(next.dictionary)?.language !== next.language) {
+    next.dictionary = dictionaries.defaultFor(next.language) || '';
+  }
+  if (dictionaries.info(next.dictionary)?.language !== next.language) throw invalid('dictionary');
+  checkInt(next, 'turnDurationMs', TURN_DURATION_MIN_MS, TURN_DURATION_MAX_MS);
+  checkInt(next, 'maxConsecutivePasses', PASS_LIMIT_MIN, PASS_LIMIT_MAX);
+  checkInt(next, 'bingoBonus', 0, BINGO_BONUS_MAX);
+  if (!HINT_POLICIES.includes(next.hintPolicy)) throw invalid('hintPolicy');
+  checkInt(next, 'hintsPerPlayer', 1, HINTS_PER_PLAYER_MAX);
+  checkInt(next, 'maxPlayers', 1, MAX_PLAYERS);
+  if (!BOARD_LAYOUTS.includes(next.boardLayout)) throw invalid('boardLayout');
+  if (typeof next.previewWordCheck !== 'boolean') throw invalid('previewWordCheck');
+  if (typeof next.rated !== 'boolean') throw invalid('rated');
+  // Rated games never allow takebacks; turning rating on turns them off
+  if (changes.rated === true && changes.allowTakebacks === undefined) next.allowTakebacks = false;
+  if (typeof next.allowTakebacks !== 'boolean' || (next.rated && next.allowTakebacks)) throw invalid('allowTakebacks');
+  return next;
+}
+
+function checkInt(settings: RoomSettings, field: keyof RoomSettings, min: number, max: number) {
+  const value = settings[field];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) throw invalid(field);
+}
+
+function invalid(field: string) {
+  return Object.assign(new Error('INVALID_SETTINGS'), { reason: field });
+}
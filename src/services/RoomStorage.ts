@@ -0,0 +1,70 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Room } from '../models/types';
+
+// Where RoomStore keeps rooms between restarts. Rooms are plain JSON-serializable objects.
+export interface RoomStorage {
+  loadAll(): Room[];
+  save(room: Room): void;
+  delete(roomId: string): void;
+}
+
+// Nothing survives a restart; used when no storage directory is configured
+export class MemoryRoomStorage implements RoomStorage {
+  private rooms = new Map<string, string>();
+
+  loadAll(): Room[] {
+    return Array.from(this.rooms.values()).map((raw) => JSON.parse(raw));
+  }
+
+  save(room: Room): void {
+    this.rooms.set(room.id, serializeRoom(room));
+  }
+
+  delete(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+}
+
+// One JSON file per room in a directory. Writes go through a temp file and a rename
+// so a crash mid-write never leaves a truncated room behind.
+export class FileRoomStorage implements RoomStorage {
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  loadAll(): Room[] {
+    const rooms: Room[] = [];
+    for (const entry of fs.readdirSync(this.dir)) {
+      if (!entry.endsWith('.json')) continue;
+      const file = path.join(this.dir, entry);
+      try {
+        rooms.push(JSON.parse(fs.readFileSync(file, 'utf8')));
+      } catch (e: any) {
+        console.warn(`[storage] Skipping unreadable room file ${file}:`, e?.message || e);
+      }
+    }
+    return rooms;
+  }
+
+  save(room: Room): void {
+    const file = this.fileFor(room.id);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, serializeRoom(room), 'utf8');
+    fs.renameSync(tmp, file);
+  }
+
+  delete(roomId: string): void {
+    fs.rmSync(this.fileFor(roomId), { force: true });
+  }
+
+  private fileFor(roomId: string) {
+    // Room codes are alphanumeric; strip anything else to stay inside the directory
+    return path.join(this.dir, `${roomId.replace(/[^A-Za-z0-9_-]/g, '')}.json`);
+  }
+}
+
+// Socket ids are meaningless after a restart
+function serializeRoom(room: Room): string {
+  return JSON.stringify(room, (key, value) => (key === 'connectionId' ? undefined : value));
+}
@@ -1,10 +1,88 @@
 import { roomCode, randomId } from '../utils/id';
-import type { Room, Player, RoomStatus } from '../models/types';
+import type { Room, Player, RoomOptions, RoomSettings, RoomStatus, Spectator } from '../models/types';
+import { CHALLENGE_WINDOW_MS, LEGACY_CHALLENGE_RULE, MAX_SPECTATORS } from '../config/constants';
+import type { BotLevel } from '../config/constants';
+import { DEFAULT_BOARD_LAYOUT } from '../config/boardLayouts';
+import { turnLengthMs } from '../utils/clock';
+import { MemoryRoomStorage } from './RoomStorage';
+import type { RoomStorage } from './RoomStorage';
+import type { DictionaryRegistry } from './DictionaryRegistry';
 
 export class RoomStore {
   private rooms = new Map<string, Room>();
 
-  constructor(private now: () => number = () => Date.now()) {}
+  constructor(private storage: RoomStorage = new MemoryRoomStorage(), private now: () => number = () => Date.now()) {}
+
+  // Reload rooms saved before a restart. Every human starts disconnected until they
+  // send 'reconnect', and running clocks restart from now. Rooms saved by older versions
+  // get the fields added since: `defaults` for their settings, classic untimed rules else.
+  // A room whose dictionary is no longer registered moves to its language's first one; with
+  // none for its language it is left in storage, unloaded, until a list is configured again.
+  restore(defaults: RoomSettings, dictionaries: DictionaryRegistry): number {
+    const now = this.now();
+    for (const room of this.storage.loadAll()) {
+      const settings = { ...defaults, ...room.settings };
+      if (!dictionaries.info(settings.dictionary)) {
+        const fallback = dictionaries.defaultFor(settings.language);
+        if (!fallback) {
+          console.warn(`[room:${room.id}] Not restored: no dictionary for ${settings.language}`);
+          continue;
+        }
+        console.warn(`[room:${room.id}] Dictionary ${settings.dictionary} is gone; using ${fallback}`);
+        if (room.settings) room.settings.dictionary = fallback;
+      }
+      for (const p of room.players) {
+        p.connectionId = undefined;
+        p.connected = !!p.isBot;
+      }
+      // maxPlayers and hintsEnabled sat on the room before per-room settings
+      const legacy = room as Room & { maxPlayers?: number; hintsEnabled?: boolean };
+      room.settings = {
+        ...defaults,
+        ...(legacy.maxPlayers !== undefined ? { maxPlayers: legacy.maxPlayers } : {}),
+        ...(legacy.hintsEnabled ? { hintPolicy: 'unlimited' as const } : {}),
+        ...room.settings,
+      };
+      delete legacy.maxPlayers;
+      delete legacy.hintsEnabled;
+      room.mode = room.mode || 'classic';
+      room.timeControl = room.timeControl || { mode: 'perTurn', initialMs: 0, incrementMs: 0 };
+      room.challengeRule = room.challengeRule || 'void';
+      if ((room.challengeRule as string) === LEGACY_CHALLENGE_RULE) room.challengeRule = 'points';
+      room.spectatorRackDelayMs = room.spectatorRackDelayMs ?? null;
+      if (room.game) {
+        room.game.layout = room.game.layout || DEFAULT_BOARD_LAYOUT;
+        room.game.lostTurnPlayerIds = room.game.lostTurnPlayerIds || [];
+        room.game.hintsUsed = room.game.hintsUsed || {};
+        // Time spent while the server was down is not charged to anyone's clock
+        const active = room.players.find((p) => p.id === room.game!.activePlayerId);
+        if (room.game.pendingChallenge) room.game.pendingChallenge.expiresAt = now + CHALLENGE_WINDOW_MS;
+        room.game.turnStartedAt = room.game.pendingChallenge?.expiresAt ?? now;
+        room.game.turnEndsAt = room.game.turnStartedAt + turnLengthMs(room.game, active);
+      }
+      // Spectators hold no state worth keeping; they simply join again
+      room.spectators = [];
+      room.visibility = room.visibility || 'private';
+      room.chat = room.chat || [];
+      // Mutes were kept by id before spectators had chat keys
+      room.mutedKeys = room.mutedKeys || (room as Room & { mutedIds?: string[] }).mutedIds || [];
+      delete (room as Room & { mutedIds?: string[] }).mutedIds;
+      room.lastActivityAt = now;
+      this.rooms.set(room.id, room);
+    }
+    if (this.rooms.size > 0) console.log(`[room] Restored ${this.rooms.size} room(s) from storage`);
+    return this.rooms.size;
+  }
+
+  // Persist the current state of a room (call after every accepted change)
+  saveRoom(room: Room) {
+    if (!this.rooms.has(room.id)) return;
+    try {
+      this.storage.save(room);
+    } catch (e: any) {
+      console.error(`[room:${room.id}] Failed to save:`, e?.message || e);
+    }
+  }
 
   listRooms(): Room[] {
     return Array.from(this.rooms.values());
@@ -16,6 +94,7 @@ export class RoomStore {
 
   deleteRoom(id: string): void {
     this.rooms.delete(id);
+    this.storage.delete(id);
   }
 
   updateActivity(room: Room) {
@@ -29,7 +108,8 @@ export class RoomStore {
     return undefined;
   }
 
-  createRoom(maxPlayers: number, hostNickname: string, playerId?: string) {
+  // `settings` must already be validated (see RoomSettings.ts)
+  createRoom(settings: RoomSettings, hostNickname: string, playerId?: string, options: RoomOptions = {}) {
     const id = this.generateUniqueRoomId();
     const host: Player = {
       id: playerId || randomId(16),
@@ -44,11 +124,20 @@ export class RoomStore {
       id,
       hostId: host.id,
       status: 'waiting',
-      maxPlayers: Math.max(1, Math.min(4, maxPlayers)),
+      settings,
+      mode: options.mode || 'classic',
+      timeControl: options.timeControl || { mode: 'perTurn', initialMs: 0, incrementMs: 0 },
+      challengeRule: options.challengeRule || 'void',
+      spectatorRackDelayMs: options.spectatorRackDelayMs ?? null,
       players: [host],
+      spectators: [],
+      visibility: options.visibility || 'private',
+      chat: [],
+      mutedKeys: [],
       lastActivityAt: this.now(),
     };
     this.rooms.set(id, room);
+    this.saveRoom(room);
     console.log(`[room] Created ${id} with host ${host.nickname} (${host.id})`);
     return { room, player: host };
   }
@@ -56,7 +145,7 @@ export class RoomStore {
   joinRoom(roomId: string, nickname: string, playerId?: string) {
     const room = this.rooms.get(roomId);
     if (!room) throw new Error('ROOM_NOT_FOUND');
-    if (room.players.length >= room.maxPlayers) throw new Error('ROOM_FULL');
+    if (room.players.length >= room.settings.maxPlayers) throw new Error('ROOM_FULL');
     if (room.status !== 'waiting') throw new Error('ROOM_NOT_JOINABLE');
     if (room.players.some((p) => p.nickname.toLowerCase() === nickname.toLowerCase())) throw new Error('NICKNAME_TAKEN');
 
@@ -76,27 +165,80 @@ export class RoomStore {
       room.players.push(player);
     }
     this.updateActivity(room);
+    this.saveRoom(room);
     console.log(`[room:${roomId}] Player joined ${player.nickname} (${player.id})`);
     return { room, player };
   }
 
-  removePlayerFromRoom(roomId: string, playerId: string) {
+  addBot(roomId: string, level: BotLevel) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error('ROOM_NOT_FOUND');
+    if (room.status !== 'waiting') throw new Error('ROOM_NOT_JOINABLE');
+    if (room.players.length >= room.settings.maxPlayers) throw new Error('ROOM_FULL');
+    let n = 1;
+    while (room.players.some((p) => p.nickname.toLowerCase() === `bot ${n}`)) n++;
+    const bot: Player = {
+      id: `bot_${randomId(12)}`,
+      nickname: `Bot ${n}`,
+      connected: true,
+      ready: true,
+      score: 0,
+      rack: [],
+      stats: { wordsPlayed: 0, bestWordScore: 0, bestWord: null, totalTurns: 0, passes: 0 },
+      isBot: true,
+      botLevel: level,
+    };
+    room.players.push(bot);
+    this.updateActivity(room);
+    this.saveRoom(room);
+    return { room, player: bot };
+  }
+
+  // Spectators can watch a room in any status without taking a seat. Mutes and chat limits
+  // hold on to `sessionId`, the player a spectator proved to be (a muted player stays muted
+  // watching), else to the spectator's own id.
+  addSpectator(roomId: string, nickname: string, sessionId?: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error('ROOM_NOT_FOUND');
+    if (room.spectators.length >= MAX_SPECTATORS) throw new Error('TOO_MANY_SPECTATORS');
+    const id = `spec_${randomId(12)}`;
+    const spectator: Spectator = { id, nickname: nickname.slice(0, 15), chatKey: sessionId ?? id, joinedAt: this.now() };
+    room.spectators.push(spectator);
+    this.updateActivity(room);
+    return { room, spectator };
+  }
+
+  removeSpectator(roomId: string, spectatorId: string) {
     const room = this.rooms.get(roomId);
     if (!room) return;
+    const idx = room.spectators.findIndex((s) => s.id === spectatorId);
+    if (idx < 0) return;
+    room.spectators.splice(idx, 1);
+  }
+
+  // The player removed and the seat they had, if they were in the room
+  removePlayerFromRoom(roomId: string, playerId: string): { player: Player; seat: number } | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
     const idx = room.players.findIndex((p) => p.id === playerId);
     if (idx >= 0) {
       const [removed] = room.players.splice(idx, 1);
       this.updateActivity(room);
       console.log(`[room:${roomId}] Removed player ${removed.nickname} (${removed.id})`);
-      if (room.players.length === 0) {
-        this.rooms.delete(roomId);
+      const humans = room.players.filter((p) => !p.isBot);
+      if (humans.length === 0) {
+        // Bots never keep a room alive on their own
+        this.deleteRoom(roomId);
         console.log(`[room:${roomId}] Deleted (empty)`);
       } else if (playerId === room.hostId) {
         // Assign new host
-        room.hostId = room.players[0].id;
+        room.hostId = humans[0].id;
         console.log(`[room:${roomId}] Host changed to ${room.hostId}`);
       }
+      this.saveRoom(room);
+      return { player: removed, seat: idx };
     }
+    return undefined;
   }
 
   setRoomStatus(roomId: string, status: RoomStatus) {
@@ -104,6 +246,7 @@ export class RoomStore {
     if (!room) return;
     room.status = status;
     this.updateActivity(room);
+    this.saveRoom(room);
   }
 
   private generateUniqueRoomId(): string {
@@ -0,0 +1,36 @@
+import crypto from 'node:crypto';
+import { SESSION_TOKEN_TTL_MS } from '../config/constants';
+
+// Session tokens prove that a socket speaks for a playerId: '<payload>.<signature>', the
+// payload being base64url JSON { pid, iat } and the signature its HMAC-SHA256 with the
+// server secret. The server issues one when a seat is taken; reconnects must present it.
+export class SessionTokens {
+  constructor(private secret: string, private now: () => number = () => Date.now()) {}
+
+  issue(playerId: string): string {
+    const payload = Buffer.from(JSON.stringify({ pid: playerId, iat: this.now() })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  // The playerId the token was issued for, or undefined if it is forged, malformed or expired
+  verify(token: unknown): string | undefined {
+    if (typeof token !== 'string') return undefined;
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return undefined;
+    const expected = Buffer.from(this.sign(payload));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return undefined;
+    try {
+      const { pid, iat } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (typeof pid !== 'string' || !pid || typeof iat !== 'number') return undefined;
+      if (this.now() - iat > SESSION_TOKEN_TTL_MS) return undefined;
+      return pid;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private sign(payload: string) {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
@@ -1,5 +1,18 @@
+import { Lexicon } from './Lexicon';
+import { encodeWord, fromSquareSymbols } from '../utils/letters';
+
 export interface WordValidator {
+  // Words come in engine form: multi-letter tiles as one symbol (see utils/letters.ts)
   isWordValid(word: string): Promise<boolean>;
+  // Word list queries, for validators that hold the list locally. Unlike isWordValid they
+  // take and return plain letters ('CH' spelled out), split into the language's tiles.
+  // Patterns use '?' for one letter and '*' for any run; anagram letters use '?' for blanks.
+  matchPattern?(pattern: string, limit?: number): Promise<string[]>;
+  anagrams?(letters: string, limit?: number): Promise<string[]>;
+  frontHooks?(word: string): Promise<string[]>;
+  backHooks?(word: string): Promise<string[]>;
+  // Word list as a letter graph (needed for move generation)
+  getLexicon?(): Lexicon | undefined;
 }
 
 export class WordValidatorStub implements WordValidator {
@@ -14,7 +27,7 @@ export class WordValidatorHttp implements WordValidator {
   constructor(private baseUrl: string, private apiKey?: string, private timeoutMs = 1500) {}
 
   async isWordValid(word: string): Promise<boolean> {
-    const key = word.toLowerCase();
+    const key = fromSquareSymbols(word).toLowerCase();
     if (this.cache.has(key)) return this.cache.get(key)!;
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), this.timeoutMs);
@@ -41,60 +54,74 @@ export class WordValidatorHttp implements WordValidator {
   }
 }
 
-// Load a dictionary file (one word per line) and validate words against it.
-// Supports wildcard '?' in the queried word (matches any single A-Z letter).
+// Load a dictionary file (one word per line) into an indexed Lexicon.
+// A precompiled binary lexicon (see src/tools/compileDictionary.ts) is used instead when
+// the path ends with '.lex' or a '<path>.lex' file sits next to the word list, unless the
+// word list was modified after it: the lexicon is then built from the list and saved again.
+// `multiLetterTiles` are the language's tiles spelled with several letters (Spanish CH,
+// LL, RR); words are split into tiles accordingly.
+// Supports wildcard '?' in the queried word (matches any single letter).
 export class WordValidatorFile implements WordValidator {
-  private byLength: Map<number, string[]> = new Map();
-  private ready = false;
+  private lexicon?: Lexicon;
 
-  constructor(filePath: string) {
+  constructor(filePath: string, private multiLetterTiles: string[] = []) {
     try {
       // Load synchronously at startup to keep logic simple
       const fs = require('node:fs');
+      const binaryPath = filePath.endsWith('.lex') ? filePath : `${filePath}.lex`;
+      const stale = binaryPath !== filePath && fs.existsSync(binaryPath) && fs.existsSync(filePath)
+        && fs.statSync(filePath).mtimeMs > fs.statSync(binaryPath).mtimeMs;
+      if (fs.existsSync(binaryPath) && !stale) {
+        this.lexicon = Lexicon.fromBinary(fs.readFileSync(binaryPath));
+        console.log(`[dict] Loaded ${this.lexicon.size} words from ${binaryPath}`);
+        return;
+      }
       const raw: string = fs.readFileSync(filePath, 'utf8');
-      const words = raw
-        .split(/\r?\n/)
-        .map((w: string) => w.trim())
-        .filter((w: string) => w.length > 0)
-        .map((w: string) => w.toUpperCase());
-      for (const w of words) {
-        const len = w.length;
-        const arr = this.byLength.get(len) || [];
-        arr.push(w);
-        this.byLength.set(len, arr);
+      this.lexicon = Lexicon.fromWords(raw.split(/\r?\n/).map((w) => encodeWord(w, multiLetterTiles)));
+      console.log(`[dict] Loaded ${this.lexicon.size} words from ${filePath}`);
+      if (stale) {
+        try {
+          fs.writeFileSync(binaryPath, this.lexicon.toBinary());
+          console.log(`[dict] Rebuilt ${binaryPath}, older than ${filePath}`);
+        } catch (e: any) {
+          console.warn(`[dict] Could not rebuild ${binaryPath}:`, e?.message || e);
+        }
       }
-      this.ready = true;
-      console.log(`[dict] Loaded ${words.length} words from ${filePath}`);
-    } catch (e) {
+    } catch (e: any) {
       console.warn(`[dict] Failed to load dictionary at ${filePath}:`, e?.message || e);
-      this.ready = false;
+      this.lexicon = undefined;
     }
   }
 
   async isWordValid(word: string): Promise<boolean> {
-    if (!this.ready) return false;
+    if (!this.lexicon) return false;
     const W = (word || '').toUpperCase();
-    const pool = this.byLength.get(W.length);
-    if (!pool) return false;
-    if (!W.includes('?')) {
-      // Exact lookup
-      // Use a small linear search; could be optimized with a Set per length if needed
-      for (const v of pool) if (v === W) return true;
-      return false;
-    }
-    // Wildcard match: '?' matches any single A-Z letter
-    // Precompute indices of wildcards
-    const wcIdx: number[] = [];
-    for (let i = 0; i < W.length; i++) if (W[i] === '?') wcIdx.push(i);
-    outer: for (const v of pool) {
-      // Quick checks: all non-wildcard positions must match
-      for (let i = 0; i < W.length; i++) {
-        const c = W[i];
-        if (c === '?') continue;
-        if (v[i] !== c) continue outer;
-      }
-      return true;
-    }
-    return false;
+    if (!W.includes('?')) return this.lexicon.has(W);
+    return this.lexicon.matchPattern(W, 1).length > 0;
+  }
+
+  async matchPattern(pattern: string, limit?: number): Promise<string[]> {
+    return this.lexicon ? this.lexicon.matchPattern(this.encode(pattern), limit).map(fromSquareSymbols) : [];
+  }
+
+  async anagrams(letters: string, limit?: number): Promise<string[]> {
+    return this.lexicon ? this.lexicon.anagrams(this.encode(letters), limit).map(fromSquareSymbols) : [];
+  }
+
+  async frontHooks(word: string): Promise<string[]> {
+    return this.lexicon ? this.lexicon.frontHooks(this.encode(word)).map(fromSquareSymbols) : [];
+  }
+
+  async backHooks(word: string): Promise<string[]> {
+    return this.lexicon ? this.lexicon.backHooks(this.encode(word)).map(fromSquareSymbols) : [];
+  }
+
+  // Query text in the lexicon's form; '?' and '*' are one character and pass through
+  private encode(text: string): string {
+    return encodeWord(text, this.multiLetterTiles);
+  }
+
+  getLexicon(): Lexicon | undefined {
+    return this.lexicon;
   }
 }
@@ -0,0 +1,25 @@
+// Compile a word list (one word per line) into the binary lexicon format loaded by
+// WordValidatorFile, so the server skips building the graph at startup.
+// Usage: npm run compile-dict -- <words.txt> [out.lex] [--lang ES]   (default output: <words.txt>.lex)
+// --lang is needed for languages with multi-letter tiles so words are split the same way
+// the server splits them.
+import fs from 'node:fs';
+import { Lexicon } from '../services/Lexicon';
+import { getMultiLetterTiles, LANGUAGES } from '../config/constants';
+import type { Language } from '../config/constants';
+import { encodeWord } from '../utils/letters';
+
+const args = process.argv.slice(2);
+const langIdx = args.indexOf('--lang');
+const lang = langIdx >= 0 ? (args.splice(langIdx, 2)[1] || '').toUpperCase() : undefined;
+const [input, output = `${input}.lex`] = args;
+if (!input || (lang !== undefined && !LANGUAGES.includes(lang as Language))) {
+  console.error(`Usage: compile-dict <words.txt> [out.lex] [--lang ${LANGUAGES.join('|')}]`);
+  process.exit(1);
+}
+const multiLetterTiles = lang ? getMultiLetterTiles(lang as Language) : [];
+const started = Date.now();
+const lexicon = Lexicon.fromWords(fs.readFileSync(input, 'utf8').split(/\r?\n/).map((w) => encodeWord(w, multiLetterTiles)));
+const buf = lexicon.toBinary();
+fs.writeFileSync(output, buf);
+console.log(`[dict] Compiled ${lexicon.size} words into ${output} (${buf.length} bytes) in ${Date.now() - started} ms`);
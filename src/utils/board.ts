@@ -0,0 +1,45 @@
+import type { BoardCell, TileOnBoard } from '../models/types';
+import { toSquareSymbol } from './letters';
+
+export function boardIsEmpty(board: BoardCell[][]) {
+  for (const row of board) for (const c of row) if (c.tile) return false;
+  return true;
+}
+
+// Letter of a tile already on the board, in engine form (see letters.ts); jokers read as
+// their assigned letter in lowercase
+export function boardLetter(t: TileOnBoard): string {
+  if (t.isJoker) return t.assignedLetter ? toSquareSymbol(t.assignedLetter.toLowerCase()) : '?';
+  return toSquareSymbol(t.letter || '');
+}
+
+export function letterAndWordMultipliers(cell: BoardCell) {
+  if (!cell.bonus || cell.bonusUsed) return { letterMul: 1, wordMul: 1 };
+  switch (cell.bonus) {
+    case 'DL': return { letterMul: 2, wordMul: 1 };
+    case 'TL': return { letterMul: 3, wordMul: 1 };
+    case 'QL': return { letterMul: 4, wordMul: 1 };
+    case 'DW': return { letterMul: 1, wordMul: 2 };
+    case 'TW': return { letterMul: 1, wordMul: 3 };
+    case 'QW': return { letterMul: 1, wordMul: 4 };
+  }
+}
+
+// The first tile, row by row, that no chain of adjacent tiles joins to `start`; undefined
+// when every tile is joined to it or the board is empty
+export function strayTile(board: BoardCell[][], start: { x: number; y: number }): { x: number; y: number } | undefined {
+  const reached = new Set<string>();
+  const queue = board[start.y]?.[start.x]?.tile ? [start] : [];
+  for (const { x, y } of queue) {
+    const key = `${x},${y}`;
+    if (reached.has(key)) continue;
+    reached.add(key);
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (board[ny]?.[nx]?.tile && !reached.has(`${nx},${ny}`)) queue.push({ x: nx, y: ny });
+    }
+  }
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board[y].length; x++) if (board[y][x].tile && !reached.has(`${x},${y}`)) return { x, y };
+  }
+  return undefined;
+}
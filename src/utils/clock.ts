@@ -0,0 +1,16 @@
+import { OVERTIME_MAX_MS } from '../config/constants';
+import type { GameState, Player } from '../models/types';
+
+// How long the active player has before their time is up: the fixed turn length, or under
+// a chess clock what is left on their clock plus the allowed overtime
+export function turnLengthMs(game: GameState, active: Player | undefined): number {
+  if (active?.clockMs === undefined) return game.turnDurationMs;
+  return Math.max(0, active.clockMs + OVERTIME_MAX_MS);
+}
+
+// Time left on a player's clock at `now`, counting the turn in progress (which starts
+// in the future while the previous play is open to challenge)
+export function clockRemainingMs(game: GameState, player: Player, now: number): number | undefined {
+  if (player.clockMs === undefined) return undefined;
+  return game.activePlayerId === player.id ? player.clockMs - Math.max(0, now - game.turnStartedAt) : player.clockMs;
+}
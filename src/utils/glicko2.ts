@@ -0,0 +1,74 @@
+// Glicko-2 rating update (Glickman, "Example of the Glicko-2 system", 2013).
+// A game is one rating period: the player's results against each opponent are
+// applied at once, against the opponents' ratings from before the game.
+
+export interface Glicko2Rating {
+  rating: number; // Glicko scale, 1500 for a new player
+  rd: number; // rating deviation
+  volatility: number;
+}
+
+export interface Glicko2Result {
+  opponent: Glicko2Rating;
+  score: number; // 1 win, 0.5 draw, 0 loss
+}
+
+const SCALE = 173.7178;
+const EPSILON = 0.000001;
+
+export function glicko2Update(player: Glicko2Rating, results: Glicko2Result[], tau: number): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.rd / SCALE;
+  if (results.length === 0) {
+    // No games: only the deviation grows
+    return { ...player, rd: Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - 1500) / SCALE;
+    const g = 1 / Math.sqrt(1 + (3 * (opponent.rd / SCALE) ** 2) / (Math.PI * Math.PI));
+    const expected = 1 / (1 + Math.exp(-g * (mu - muJ)));
+    vInverse += g * g * expected * (1 - expected);
+    improvement += g * (score - expected);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  // New volatility: root of f by the Illinois algorithm
+  const a = Math.log(player.volatility * player.volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (tau * tau);
+  };
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  const volatility = Math.exp(A / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * improvement;
+  return { rating: muNew * SCALE + 1500, rd: phiNew * SCALE, volatility };
+}
@@ -0,0 +1,42 @@
+// Multi-letter tiles (Spanish CH, LL, RR) cover one square, so inside the engine every
+// square is one character: such a tile is written as a Greek capital, lowercase for a
+// joker like any other letter. Dictionaries are loaded in the same form, which keeps
+// C + H on two squares from passing for the CH tile. Words are turned back into plain
+// letters with `fromSquareSymbols` before they leave the engine.
+const SYMBOL_BY_TILE: Record<string, string> = { CH: 'Ψ', LL: 'Λ', RR: 'Ω' };
+const TILE_BY_SYMBOL: Record<string, string> = Object.fromEntries(Object.entries(SYMBOL_BY_TILE).map(([tile, sym]) => [sym, tile]));
+const SYMBOL_PATTERN = new RegExp(`[${Object.values(SYMBOL_BY_TILE).map((s) => s + s.toLowerCase()).join('')}]`, 'g');
+
+// Engine character for a tile letter ('CH' → 'Ψ', 'ch' → 'ψ'); single letters are unchanged
+export function toSquareSymbol(letter: string): string {
+  const symbol = letter.length > 1 ? SYMBOL_BY_TILE[letter.toUpperCase()] : undefined;
+  if (!symbol) return letter;
+  return letter === letter.toUpperCase() ? symbol : symbol.toLowerCase();
+}
+
+export function fromSquareSymbols(word: string): string {
+  return word.replace(SYMBOL_PATTERN, (ch) => {
+    const tile = TILE_BY_SYMBOL[ch.toUpperCase()];
+    return ch === ch.toUpperCase() ? tile : tile.toLowerCase();
+  });
+}
+
+// Split spelled-out text into tiles, longest match first ('chico' → ['ch', 'i', 'c', 'o'])
+export function splitTiles(text: string, multiLetterTiles: string[]): string[] {
+  const longestFirst = [...multiLetterTiles].sort((a, b) => b.length - a.length);
+  const out: string[] = [];
+  for (let i = 0; i < text.length; ) {
+    const multi = longestFirst.find((t) => text.slice(i, i + t.length).toUpperCase() === t);
+    const len = multi ? multi.length : 1;
+    out.push(text.slice(i, i + len));
+    i += len;
+  }
+  return out;
+}
+
+// Dictionary word in engine form: uppercase, multi-letter tiles folded into their symbol
+export function encodeWord(word: string, multiLetterTiles: string[]): string {
+  const upper = word.trim().toUpperCase();
+  if (multiLetterTiles.length === 0) return upper;
+  return splitTiles(upper, multiLetterTiles).map(toSquareSymbol).join('');
+}
@@ -0,0 +1,174 @@
+import { RATING_INITIAL, RATING_PROVISIONAL_GAMES } from '../config/constants';
+import { getBoardLayout } from '../config/boardLayouts';
+import type { BoardLayout } from '../config/boardLayouts';
+import type { GameResults, GameState, GameStateSummary, GameTileSummary, MoveSummary, Player, Room, RoomSummary } from '../models/types';
+import { clockRemainingMs } from '../utils/clock';
+import type { GameService } from '../services/GameService';
+import { percentOfTop } from '../services/GameService';
+import { ratingPool } from '../services/RatingService';
+import type { RatingService } from '../services/RatingService';
+
+// What clients get to see of rooms, games and results, shared by the WebSocket and HTTP layers
+
+function ratingSummary(ratings: RatingService, playerId: string, pool: string) {
+  const r = ratings.rating(playerId, pool);
+  return { rating: Math.round(r ? r.rating : RATING_INITIAL), provisional: !r || r.games < RATING_PROVISIONAL_GAMES };
+}
+
+// With `ratings`, humans show their rating in the room's pool
+export function toRoomSummary(room: Room, ratings?: RatingService): RoomSummary {
+  const pool = ratingPool(room.settings.language, room.timeControl.mode);
+  return {
+    id: room.id,
+    hostId: room.hostId,
+    status: room.status,
+    settings: room.settings,
+    maxPlayers: room.settings.maxPlayers,
+    hintsEnabled: room.settings.hintPolicy !== 'off',
+    mode: room.mode,
+    timeControl: room.timeControl,
+    challengeRule: room.challengeRule,
+    spectatorRackDelayMs: room.spectatorRackDelayMs,
+    players: room.players.map((p) => ({
+      id: p.id,
+      nickname: p.nickname,
+      connected: p.connected,
+      ready: p.ready,
+      host: p.id === room.hostId,
+      score: p.score,
+      isBot: p.isBot,
+      botLevel: p.botLevel,
+      ...(ratings && !p.isBot ? ratingSummary(ratings, p.id, pool) : {}),
+    })),
+    spectators: room.spectators.map((s) => ({ id: s.id, nickname: s.nickname })),
+    visibility: room.visibility,
+    mutedIds: [...room.players.filter((p) => room.mutedKeys.includes(p.id)), ...room.spectators.filter((s) => room.mutedKeys.includes(s.chatKey))].map((m) => m.id),
+  };
+}
+
+export function toGameResults(room: Room, game: GameService): GameResults {
+  const scores: Record<string, number> = {};
+  const statsByPlayer: GameResults['statsByPlayer'] = {};
+  const forfeited = room.game?.forfeited || [];
+  for (const p of [...room.players, ...forfeited]) { scores[p.id] = p.score; statsByPlayer[p.id] = p.stats; }
+  // Players who left can't win
+  const max = Math.max(...room.players.map((p) => p.score));
+  const winnerIds = room.players.filter((p) => p.score === max).map((p) => p.id);
+  return {
+    roomId: room.id,
+    mode: room.mode,
+    language: room.settings.language,
+    startedAt: room.game?.startedAt ?? 0,
+    players: [
+      ...room.players.map((p) => ({ id: p.id, nickname: p.nickname, isBot: p.isBot })),
+      ...forfeited.map((p) => ({ id: p.id, nickname: p.nickname, isBot: p.isBot, forfeited: true })),
+    ],
+    scores,
+    statsByPlayer,
+    winnerIds,
+    // Duplicate games are ranked against the top: share of the summed top scores
+    percentByPlayer: room.game?.duplicate ? game.duplicateStandings(room) : undefined,
+    ratingChanges: room.game?.ratingChanges,
+  };
+}
+
+// The board a room plays on: the running game's, otherwise the one its settings pick
+export function roomLayout(room: Room): BoardLayout {
+  return getBoardLayout(room.game?.layout || room.settings.boardLayout);
+}
+
+export function currentRacks(room: Room): Record<string, GameTileSummary[]> {
+  const racks: Record<string, GameTileSummary[]> = {};
+  for (const p of room.players) racks[p.id] = p.rack.map((t) => ({ tileId: t.id, letter: t.letter, points: t.value }));
+  return racks;
+}
+
+// A move as every player may see it: racks and exchanged letters stay private
+export function toPublicMove(move: MoveSummary): MoveSummary {
+  const { rack, exchanged, ...rest } = move;
+  return rest;
+}
+
+export function toGameStateSummaryForPlayer(game: GameState, players: Player[], playerId: string): GameStateSummary {
+  const board = game.board.map((row) =>
+    row.map((c) => ({
+      // Jokers show their assigned letter in lowercase ('?' if none was recorded)
+      letter: c.tile ? (c.tile.isJoker ? (c.tile.assignedLetter?.toLowerCase() || '?') : (c.tile.letter || undefined)) : undefined,
+      // Keep 0-point value for jokers (no || undefined here)
+      points: c.tile ? c.tile.value : undefined,
+      bonus: c.bonus,
+    })),
+  );
+  const me = players.find((p) => p.id === playerId);
+  const scoresByPlayer: Record<string, number> = {};
+  for (const p of players) scoresByPlayer[p.id] = p.score;
+  // Duplicate top plays nobody found are logged without a player
+  const name = (pid: string) => (pid ? players.find((pp) => pp.id === pid)?.nickname || pid : 'Top');
+  const log = (game.log || []).map((m) => {
+    if (m.action === 'play') {
+      const words = m.words.filter(Boolean).join(', ');
+      return { playerId: m.playerId, action: 'play' as const, summary: `${name(m.playerId)}: ${words} (+${m.score})` };
+    }
+    if (m.action === 'exchange') {
+      return { playerId: m.playerId, action: 'exchange' as const, summary: `${name(m.playerId)}: exchanged tiles` };
+    }
+    if (m.action === 'withdraw') {
+      const words = m.words.filter(Boolean).join(', ');
+      return { playerId: m.playerId, action: 'withdraw' as const, summary: `${name(m.playerId)}: ${words} withdrawn after a challenge (${m.score})` };
+    }
+    if (m.action === 'rackPenalty' || m.action === 'rackBonus') {
+      return { playerId: m.playerId, action: m.action, summary: `${name(m.playerId)}: tiles left (${m.score > 0 ? '+' : ''}${m.score})` };
+    }
+    if (m.action === 'takeback') {
+      return { playerId: m.playerId, action: 'takeback' as const, summary: `${name(m.playerId)}: took back a move (${m.score})` };
+    }
+    if (m.action === 'timePenalty') {
+      return { playerId: m.playerId, action: 'timePenalty' as const, summary: `${name(m.playerId)}: overtime (${m.score})` };
+    }
+    if (m.action === 'challengePenalty') {
+      const penalty = m.score < 0 ? `${m.score}` : 'loses a turn';
+      return { playerId: m.playerId, action: 'challengePenalty' as const, summary: `${name(m.playerId)}: unsuccessful challenge (${penalty})` };
+    }
+    return { playerId: m.playerId, action: 'pass' as const, summary: `${name(m.playerId)}: passed` };
+  });
+  return {
+    board,
+    myRack: (me?.rack || []).map((t) => ({ tileId: t.id, letter: t.letter, points: t.value })),
+    scoresByPlayer,
+    activePlayerId: game.activePlayerId,
+    turnEndsAt: game.turnEndsAt,
+    turnDurationMs: game.turnDurationMs,
+    bagCount: game.bag.length,
+    log,
+    pendingChallenge: game.pendingChallenge
+      ? { playerId: game.pendingChallenge.playerId, words: game.pendingChallenge.move.words, expiresAt: game.pendingChallenge.expiresAt }
+      : undefined,
+    takebackRequest: game.takebackRequest,
+    clocks: players.some((p) => p.clockMs !== undefined) ? clockSummary(game, players) : undefined,
+    duplicate: game.duplicate ? duplicateSummary(game, players, playerId) : undefined,
+    version: game.version,
+  };
+}
+
+function clockSummary(game: GameState, players: Player[]): GameStateSummary['clocks'] {
+  const now = Date.now();
+  const clocks: NonNullable<GameStateSummary['clocks']> = {};
+  for (const p of players) {
+    clocks[p.id] = { remainingMs: clockRemainingMs(game, p, now) ?? 0, running: game.activePlayerId === p.id };
+  }
+  return clocks;
+}
+
+// Round progress; other players' submissions stay hidden until the round closes
+function duplicateSummary(game: GameState, players: Player[], playerId: string): GameStateSummary['duplicate'] {
+  const dup = game.duplicate!;
+  const percentByPlayer = percentOfTop(players, dup.topTotal);
+  const mine = dup.submissions[playerId];
+  return {
+    round: dup.round,
+    submittedPlayerIds: Object.keys(dup.submissions),
+    topTotal: dup.topTotal,
+    percentByPlayer,
+    mySubmission: mine ? { words: mine.words, score: mine.score } : undefined,
+  };
+}
@@ -1,18 +1,113 @@
-import { Server as IOServer, Socket } from 'socket.io';
-import type { Room, RoomSummary, GameState, GameStateSummary, Player } from '../models/types';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Server as IOServer, Socket as IOSocket } from 'socket.io';
+import type { DefaultEventsMap } from 'socket.io';
+import type {
+  AddBotPayload, ChatMessage, ChatMessagePayload, ClientMessage, CreateRoomPayload, ErrorPayload, GetProfilePayload, HelloPayload, ImportGamePayload,
+  JoinRoomPayload, MuteChatPayload, PlayMovePayload, PreviewMovePayload, QuickMatchPayload, ReconnectPayload, RemoveBotPayload, RequestHintPayload,
+  RequestId, RespondTakebackPayload, Room, RoomPayload, RoomSettings, RoomSummary, GameStateSummary, GameTileSummary, MovePlacement,
+  MoveSummary, Player, ServerMessage, SocketData, SpectateRoomPayload, Spectator, TimeControl, TimeControlRequest, ToggleReadyPayload, UpdateSettingsPayload,
+} from '../models/types';
 import type { RoomStore } from '../services/RoomStore';
-import type { GameService } from '../services/GameService';
+import {
+  CHESS_CLOCK_DEFAULT_MS, CHESS_CLOCK_MAX_MS, CLOCK_INCREMENT_DEFAULT_MS, CLOCK_INCREMENT_MAX_MS, ERROR_CODES,
+  HINT_DEFAULT_COUNT, HINT_MAX_COUNT, LANGUAGE, LANGUAGES, LEGACY_CHALLENGE_RULE, MAX_PLAYERS, PROTOCOL_FEATURES, PROTOCOL_LEGACY_VERSION, PROTOCOL_MIN_VERSION,
+  PROTOCOL_VERSION, TIME_CONTROL_MODES,
+} from '../config/constants';
+import type { ErrorCode, ProtocolFeature } from '../config/constants';
+import { getBoardLayout, listBoardLayouts } from '../config/boardLayouts';
+import type { GameService, PlayMoveOptions } from '../services/GameService';
+import type { BotService } from '../services/BotService';
+import type { DictionaryRegistry } from '../services/DictionaryRegistry';
+import type { ChatService } from '../services/ChatService';
+import type { MatchmakingService, QuickMatchEntry } from '../services/MatchmakingService';
+import type { RatingService } from '../services/RatingService';
+import { toProfileSummary } from '../services/ProfileStore';
+import type { ProfileStore } from '../services/ProfileStore';
+import type { SessionTokens } from '../services/SessionTokens';
+import { applyRoomSettings, defaultRoomSettings } from '../services/RoomSettings';
+import { exportGcg } from '../services/GcgExporter';
+import { parseGcg, parseSnapshot } from '../services/GameImporter';
+import type { ImportedPosition } from '../services/GameImporter';
+import { currentRacks, roomLayout, toGameResults, toGameStateSummaryForPlayer, toPublicMove, toRoomSummary } from '../views/summaries';
+import { parseClientMessage } from './validation';
+import { OLDER_PROTOCOL_VERSIONS, adaptMessage, messageFeature, negotiate } from './protocol';
+import type { Negotiation, OutboundMessage } from './protocol';
+
+// socket.io server and sockets carrying the typed SocketData
+export type SocketServer = IOServer<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+type Socket = IOSocket<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+
+// socket.io room of the sockets subscribed to the lobby (room codes are uppercase)
+const LOBBY = 'lobby';
+
+// A socket on an older protocol version also joins the `@v<version>` twin of each of its
+// rooms, so that broadcasts reach it converted (see broadcast)
+function versionRoom(room: string, version: number) {
+  return `${room}@v${version}`;
+}
+const OUTDATED_ROOMS = OLDER_PROTOCOL_VERSIONS.map((v) => versionRoom('protocol', v));
+
+// A socket joins the `without:<feature>` room of each feature its client doesn't handle,
+// which broadcasts of that feature's messages leave out
+function featureRoom(feature: ProtocolFeature) {
+  return `without:${feature}`;
+}
 
 export class WebSocketServer {
-  constructor(private io: IOServer, private roomStore: RoomStore, private game: GameService) {
+  // Pending bot turns, keyed by room id (by `${roomId}:${botId}` for duplicate rounds)
+  private botTimers = new Map<string, NodeJS.Timeout>();
+  // Racks over time for rooms that show them to spectators with a delay, keyed by room id
+  private rackSnapshots = new Map<string, Array<{ at: number; racks: Record<string, GameTileSummary[]> }>>();
+  // Moves being played, keyed by `${roomId}:${playerId}:${moveId}`, so a retry waits for the first attempt
+  private movesInFlight = new Map<string, Promise<void>>();
+  // Rooms whose imported position is being checked, so nothing else starts them meanwhile
+  private importsInFlight = new Set<string>();
+  // Rooms in the lobby list last sent to subscribers
+  private lobbyRoomIds = new Set<string>();
+  // The message being handled, through its awaits, so that replies can echo its requestId
+  private requests = new AsyncLocalStorage<{ socketId: string; requestId?: RequestId }>();
+  // Whether a tick is running, see tick()
+  private ticking = false;
+
+  constructor(private io: SocketServer, private roomStore: RoomStore, private game: GameService, private bots: BotService, private dictionaries: DictionaryRegistry, private chat: ChatService, private matchmaking: MatchmakingService,
+    private profiles: ProfileStore, private ratings: RatingService, private sessions: SessionTokens) {
+    // A session token in the handshake must be valid; the socket then takes back its seats.
+    // A hello there too gets those seats sent in the client's protocol version.
+    this.io.use((socket, next) => {
+      const { token, hello } = socket.handshake.auth || {};
+      if (token !== undefined && !this.sessions.verify(token)) return next(Object.assign(new Error('INVALID_TOKEN'), { data: { code: 'INVALID_TOKEN' } }));
+      if (hello !== undefined) {
+        const parsed = parseClientMessage({ type: 'hello', payload: hello });
+        if (!parsed.ok) {
+          const path = parsed.error.path.replace(/^payload/, 'auth.hello');
+          return next(Object.assign(new Error('BAD_PAYLOAD'), { data: { code: 'BAD_PAYLOAD', message: parsed.error.message, path } }));
+        }
+        const result = negotiate(hello);
+        if (!result.ok) return next(Object.assign(new Error('UPGRADE_REQUIRED'), { data: this.upgradeRequired(result) }));
+      }
+      next();
+    });
     this.io.on('connection', (socket) => this.onConnection(socket));
   }
 
   private onConnection(socket: Socket) {
     console.log(`[ws] connection ${socket.id}`);
+    this.setProtocol(socket, PROTOCOL_LEGACY_VERSION, []);
+    // Checked by the middleware
+    const hello = socket.handshake.auth?.hello;
+    const negotiated = hello !== undefined ? negotiate(hello) : undefined;
+    if (negotiated?.ok) this.welcome(socket, negotiated);
+    const sessionId = this.sessions.verify(socket.handshake.auth?.token);
+    if (sessionId) {
+      for (const room of this.roomStore.listRooms()) {
+        const player = room.players.find((p) => p.id === sessionId);
+        if (player) this.resumeSeat(socket, room, player);
+      }
+    }
 
     socket.on('disconnect', () => {
       console.log(`[ws] disconnect ${socket.id}`);
+      this.matchmaking.cancel(socket.id);
       // Mark players using this connection as disconnected
       for (const room of this.roomStore.listRooms()) {
         let changed = false;
@@ -21,6 +116,8 @@ export class WebSocketServer {
             p.connected = false; p.connectionId = undefined; changed = true;
           }
         }
+        const spectator = room.spectators.find((sp) => sp.connectionId === socket.id);
+        if (spectator) { this.roomStore.removeSpectator(room.id, spectator.id); changed = true; }
         if (changed) {
           this.roomStore.updateActivity(room);
           this.broadcastRoomUpdate(room.id);
@@ -28,306 +125,1143 @@ export class WebSocketServer {
       }
     });
 
-    socket.on('message', async (msg: any) => {
-      try {
-        const { type, payload } = msg || {};
-        switch (type) {
-          case 'createRoom':
-            await this.handleCreateRoom(socket, payload);
-            break;
-          case 'joinRoom':
-            await this.handleJoinRoom(socket, payload);
-            break;
-          case 'reconnect':
-            await this.handleReconnect(socket, payload);
-            break;
-          case 'toggleReady':
-            await this.handleToggleReady(socket, payload);
-            break;
-          case 'startGame':
-            await this.handleStartGame(socket, payload);
-            break;
-          case 'playMove':
-            await this.handlePlayMove(socket, payload);
-            break;
-          case 'leaveRoom':
-            await this.handleLeaveRoom(socket, payload);
-            break;
-          default:
-            socket.emit('message', { type: 'error', payload: { code: 'UNKNOWN_TYPE', message: 'Unknown message type' } });
-        }
-      } catch (e: any) {
-        console.error('[ws] error handling message', e);
-        const message = e?.message || 'Internal error';
-        socket.emit('message', { type: 'error', payload: { code: 'SERVER_ERROR', message } });
+    socket.on('message', async (msg: unknown) => {
+      const parsed = parseClientMessage(msg);
+      if (!parsed.ok) {
+        const { code, error, requestId } = parsed;
+        return this.send(socket, { type: 'error', payload: { code, message: error.message, path: error.path || undefined }, requestId });
       }
+      const { message } = parsed;
+      await this.requests.run({ socketId: socket.id, requestId: message.requestId }, () => this.dispatch(socket, message));
     });
   }
 
-  private async handleCreateRoom(socket: Socket, payload: any) {
-    const { nickname, maxPlayers = 4, playerId } = payload || {};
-    if (!nickname) return this.error(socket, 'BAD_PAYLOAD', 'Missing nickname');
-    const { room, player } = this.roomStore.createRoom(maxPlayers, nickname, playerId);
-    player.connectionId = socket.id; player.connected = true;
-    // Bind this socket to the player for future personalized emits
-    // @ts-ignore
-    (socket as any).data = (socket as any).data || {};
-    // @ts-ignore
-    (socket as any).data.playerId = player.id;
-    socket.join(room.id);
+  private async dispatch(socket: Socket, message: ClientMessage) {
+    try {
+      switch (message.type) {
+        case 'hello':
+          await this.handleHello(socket, message.payload);
+          break;
+        case 'createRoom':
+          await this.handleCreateRoom(socket, message.payload);
+          break;
+        case 'joinRoom':
+          await this.handleJoinRoom(socket, message.payload);
+          break;
+        case 'subscribeLobby':
+          await this.handleSubscribeLobby(socket);
+          break;
+        case 'unsubscribeLobby':
+          await this.leave(socket, LOBBY);
+          break;
+        case 'quickMatch':
+          await this.handleQuickMatch(socket, message.payload);
+          break;
+        case 'cancelQuickMatch':
+          if (this.matchmaking.cancel(socket.id)) this.send(socket, { type: 'quickMatchCancelled', payload: {} });
+          break;
+        case 'spectateRoom':
+          await this.handleSpectateRoom(socket, message.payload);
+          break;
+        case 'reconnect':
+          await this.handleReconnect(socket, message.payload);
+          break;
+        case 'updateSettings':
+          await this.handleUpdateSettings(socket, message.payload);
+          break;
+        case 'toggleReady':
+          await this.handleToggleReady(socket, message.payload);
+          break;
+        case 'addBot':
+          await this.handleAddBot(socket, message.payload);
+          break;
+        case 'removeBot':
+          await this.handleRemoveBot(socket, message.payload);
+          break;
+        case 'startGame':
+          await this.handleStartGame(socket, message.payload);
+          break;
+        case 'importGame':
+          await this.handleImportGame(socket, message.payload);
+          break;
+        case 'playMove':
+          await this.handlePlayMove(socket, message.payload);
+          break;
+        case 'previewMove':
+          await this.handlePreviewMove(socket, message.payload);
+          break;
+        case 'challenge':
+          await this.handleChallenge(socket, message.payload);
+          break;
+        case 'requestTakeback':
+          await this.handleRequestTakeback(socket, message.payload);
+          break;
+        case 'respondTakeback':
+          await this.handleRespondTakeback(socket, message.payload);
+          break;
+        case 'requestHint':
+          await this.handleRequestHint(socket, message.payload);
+          break;
+        case 'exportGame':
+          await this.handleExportGame(socket, message.payload);
+          break;
+        case 'chatMessage':
+          await this.handleChatMessage(socket, message.payload);
+          break;
+        case 'muteChat':
+          await this.handleMuteChat(socket, message.payload);
+          break;
+        case 'getProfile':
+          await this.handleGetProfile(socket, message.payload);
+          break;
+        case 'leaveRoom':
+          await this.handleLeaveRoom(socket, message.payload);
+          break;
+      }
+    } catch (e: any) {
+      console.error('[ws] error handling message', e);
+      // A rule error a handler let through keeps its code; anything else is a bug
+      if (isErrorCode(e?.message)) return this.error(socket, e.message, e.message, { reason: e.reason });
+      this.error(socket, 'SERVER_ERROR', 'Internal error');
+    }
+  }
+
+  // Agree on the protocol version and tell the client what the server has. A client the
+  // server cannot talk with learns which versions it speaks and is disconnected.
+  private async handleHello(socket: Socket, payload: HelloPayload) {
+    const result = negotiate(payload);
+    if (!result.ok) {
+      this.error(socket, 'UPGRADE_REQUIRED', result.message, this.upgradeRequired(result));
+      socket.disconnect(true);
+      return;
+    }
+    this.welcome(socket, result);
+  }
+
+  private welcome(socket: Socket, result: Extract<Negotiation, { ok: true }>) {
+    this.setProtocol(socket, result.version, result.features);
+    const dictionaries = this.dictionaries.list();
+    this.send(socket, {
+      type: 'welcome',
+      payload: {
+        version: result.version,
+        serverVersion: PROTOCOL_VERSION,
+        minVersion: PROTOCOL_MIN_VERSION,
+        features: result.features,
+        serverFeatures: PROTOCOL_FEATURES,
+        languages: LANGUAGES.filter((l) => dictionaries.some((d) => d.language === l)),
+        dictionaries,
+        boardLayouts: listBoardLayouts(),
+      },
+    });
+  }
+
+  private upgradeRequired(result: Extract<Negotiation, { ok: false }>): ErrorPayload {
+    return {
+      code: 'UPGRADE_REQUIRED',
+      message: result.message,
+      supportedVersions: { min: PROTOCOL_MIN_VERSION, max: PROTOCOL_VERSION },
+      missingFeatures: result.missingFeatures,
+    };
+  }
+
+  // Record what the socket speaks, and move it, with every room it is in, to the version
+  // rooms of `version` and to the rooms of the features it lacks
+  private setProtocol(socket: Socket, version: number, features: ProtocolFeature[]) {
+    socket.data.protocolVersion = version;
+    socket.data.features = features;
+    for (const room of [...socket.rooms]) if (room.includes('@v') || room.startsWith('without:')) socket.leave(room);
+    if (version < PROTOCOL_VERSION) {
+      for (const room of [...socket.rooms]) socket.join(versionRoom(room, version));
+      socket.join(versionRoom('protocol', version));
+    }
+    for (const feature of PROTOCOL_FEATURES) if (!features.includes(feature)) socket.join(featureRoom(feature));
+  }
+
+  private join(socket: Socket, room: string) {
+    socket.join(room);
+    const version = socket.data.protocolVersion;
+    if (version < PROTOCOL_VERSION) socket.join(versionRoom(room, version));
+  }
+
+  private async leave(socket: Socket, room: string) {
+    await socket.leave(room);
+    await socket.leave(versionRoom(room, socket.data.protocolVersion));
+  }
+
+  private async handleCreateRoom(socket: Socket, payload: CreateRoomPayload) {
+    const {
+      nickname, settings = {}, maxPlayers, hintsEnabled, mode = 'classic', timeControl: requestedTimeControl, challengeRule: requestedRule = 'void',
+      spectatorRackDelayMs = null, visibility = 'private',
+    } = payload;
+    const challengeRule = requestedRule === LEGACY_CHALLENGE_RULE ? 'points' : requestedRule;
+    let roomSettings: RoomSettings;
+    try {
+      // maxPlayers and hintsEnabled used to be top-level fields; older clients still send them
+      const legacy = { ...(maxPlayers !== undefined ? { maxPlayers } : {}), ...(hintsEnabled ? { hintPolicy: 'unlimited' as const } : {}) };
+      roomSettings = applyRoomSettings(defaultRoomSettings(this.dictionaries), { ...legacy, ...settings }, this.dictionaries);
+    } catch (e: any) {
+      return this.settingsError(socket, e);
+    }
+    const timeControl = parseTimeControl(requestedTimeControl);
+    if (!timeControl) return this.error(socket, 'BAD_PAYLOAD', 'Invalid time control', { path: 'payload.timeControl' });
+    if (mode === 'duplicate' && timeControl.mode !== 'perTurn') {
+      return this.error(socket, 'BAD_PAYLOAD', 'Chess clocks are for classic games only', { path: 'payload.timeControl.mode' });
+    }
+    // Players keep their id across rooms only by proving it with their session token
+    const playerId = this.sessionPlayerId(socket, payload);
+    const { room, player } = this.roomStore.createRoom(roomSettings, nickname, playerId, { mode, timeControl, challengeRule, spectatorRackDelayMs, visibility });
+    this.bindPlayer(socket, room, player);
     this.roomStore.updateActivity(room);
+    this.sendSession(socket, room, player);
     this.sendFullStateToSocket(socket, room.id, player.id);
     this.broadcastRoomUpdate(room.id);
   }
 
-  private async handleJoinRoom(socket: Socket, payload: any) {
-    const { nickname, roomId, playerId } = payload || {};
-    if (!nickname || !roomId) return this.error(socket, 'BAD_PAYLOAD', 'Missing nickname or roomId');
+  private async handleSubscribeLobby(socket: Socket) {
+    this.join(socket, LOBBY);
+    this.send(socket, { type: 'lobby', payload: { rooms: this.lobbyRooms().map((r) => toRoomSummary(r, this.ratings)) } });
+  }
+
+  // Wait for opponents with the same language, time control and table size
+  private async handleQuickMatch(socket: Socket, payload: QuickMatchPayload) {
+    const { nickname, language = LANGUAGE, timeControl: requestedTimeControl, tableSize = 2 } = payload;
+    if (tableSize < 2 || tableSize > MAX_PLAYERS) return this.error(socket, 'BAD_PAYLOAD', 'Invalid table size', { path: 'payload.tableSize' });
+    try {
+      applyRoomSettings(defaultRoomSettings(this.dictionaries), { language }, this.dictionaries);
+    } catch (e: any) {
+      return this.settingsError(socket, e, 'payload');
+    }
+    const timeControl = parseTimeControl(requestedTimeControl);
+    if (!timeControl) return this.error(socket, 'BAD_PAYLOAD', 'Invalid time control', { path: 'payload.timeControl' });
+    const playerId = this.sessionPlayerId(socket, payload);
+    const group = this.matchmaking.enqueue({ socketId: socket.id, nickname, playerId, language, timeControl, tableSize });
+    if (group) return this.startQuickMatch(group);
+    // Everyone waiting in the group learns how many are there
+    const waiting = this.matchmaking.groupOf(socket.id);
+    for (const entry of waiting) {
+      this.broadcast(entry.socketId, {
+        type: 'quickMatchQueued',
+        payload: { language, timeControl, tableSize, waiting: waiting.length, expiresAt: this.matchmaking.expiresAt(entry) },
+      });
+    }
+  }
+
+  // Seat a quick match group in a new room and start. Seats still empty after the timeout
+  // go to bots, when the language has a dictionary file for them.
+  private async startQuickMatch(group: QuickMatchEntry[]) {
+    const sockets = new Map<string, Socket>();
+    for (const entry of group) {
+      const s = this.io.sockets.sockets.get(entry.socketId);
+      if (s) sockets.set(entry.socketId, s);
+    }
+    const present = group.filter((e) => sockets.has(e.socketId));
+    if (present.length === 0) return;
+    const [first] = present;
+    const settings = applyRoomSettings(defaultRoomSettings(this.dictionaries), { language: first.language, maxPlayers: first.tableSize }, this.dictionaries);
+    const { room, player: host } = this.roomStore.createRoom(settings, first.nickname, first.playerId, { timeControl: first.timeControl });
+    const seats: Array<[QuickMatchEntry, Player]> = [[first, host]];
+    for (const entry of present.slice(1)) {
+      // Same nickname twice at one table: number the newcomer
+      let nickname = entry.nickname.slice(0, 15);
+      for (let n = 2; room.players.some((p) => p.nickname.toLowerCase() === nickname.toLowerCase()); n++) nickname = `${entry.nickname.slice(0, 12)} ${n}`;
+      seats.push([entry, this.roomStore.joinRoom(room.id, nickname, entry.playerId).player]);
+    }
+    if (this.game.canGenerateMoves(room)) {
+      while (room.players.length < first.tableSize) this.roomStore.addBot(room.id, 'greedy');
+    } else if (room.players.length < 2) {
+      this.roomStore.deleteRoom(room.id);
+      this.error(sockets.get(first.socketId)!, 'NO_MATCH_FOUND', 'No opponent found');
+      return;
+    }
+    for (const [entry, player] of seats) {
+      player.ready = true;
+      this.bindPlayer(sockets.get(entry.socketId)!, room, player);
+    }
+    try {
+      this.game.startNewGame(room);
+    } catch (e: any) {
+      // Players stay seated in the waiting room and can start it themselves
+      console.error(`[room:${room.id}] quick match could not start`, e);
+    }
+    if (room.game) room.status = 'playing';
+    this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
+    for (const [entry, player] of seats) {
+      const socket = sockets.get(entry.socketId)!;
+      this.send(socket, { type: 'quickMatchFound', payload: { roomId: room.id, playerId: player.id } });
+      this.sendSession(socket, room, player);
+      this.sendFullStateToSocket(socket, room.id, player.id);
+    }
+    this.broadcastRoomUpdate(room.id);
+    await this.broadcastGameState(room);
+  }
+
+  private async expireQuickMatches() {
+    for (const group of this.matchmaking.takeExpired()) await this.startQuickMatch(group);
+  }
+
+  private async handleJoinRoom(socket: Socket, payload: JoinRoomPayload) {
+    const { nickname, roomId } = payload;
     try {
-      const { room, player } = this.roomStore.joinRoom(roomId, nickname, playerId);
-      player.connectionId = socket.id; player.connected = true;
-      // @ts-ignore
-      (socket as any).data = (socket as any).data || {};
-      // @ts-ignore
-      (socket as any).data.playerId = player.id;
-      socket.join(room.id);
+      const { room, player } = this.roomStore.joinRoom(roomId, nickname, this.sessionPlayerId(socket, payload));
+      this.bindPlayer(socket, room, player);
       this.roomStore.updateActivity(room);
+      this.postSystem(room, `${player.nickname} joined the game`);
+      this.sendSession(socket, room, player);
       this.sendFullStateToSocket(socket, room.id, player.id);
       this.broadcastRoomUpdate(room.id);
     } catch (e: any) {
-      this.error(socket, e.message || 'JOIN_FAILED', 'Join failed');
+      this.error(socket, errorCode(e, 'JOIN_FAILED'), 'Join failed');
     }
   }
 
-  private async handleReconnect(socket: Socket, payload: any) {
-    const { playerId, lastRoomId } = payload || {};
+  private async handleSpectateRoom(socket: Socket, payload: SpectateRoomPayload) {
+    const { nickname, roomId } = payload;
+    try {
+      const { room, spectator } = this.roomStore.addSpectator(roomId, nickname, this.sessionPlayerId(socket, {}));
+      spectator.connectionId = socket.id;
+      socket.data.spectatorId = spectator.id;
+      this.join(socket, room.id);
+      this.postSystem(room, `${spectator.nickname} is watching the game`, 'spectators');
+      const gs = room.game ? this.toGameStateSummaryForSpectator(room) : undefined;
+      const chat = this.chat.history(room, true);
+      this.send(socket, { type: 'fullState', payload: { room: toRoomSummary(room, this.ratings), layout: roomLayout(room), gameState: gs, chat, spectatorId: spectator.id } });
+      this.broadcastRoomUpdate(room.id);
+    } catch (e: any) {
+      this.error(socket, errorCode(e, 'SPECTATE_FAILED'), 'Could not spectate');
+    }
+  }
+
+  private async handleReconnect(socket: Socket, payload: ReconnectPayload) {
+    const { playerId, lastRoomId } = payload;
+    const sessionId = this.sessionPlayerId(socket, payload);
+    if (!sessionId || (playerId !== undefined && playerId !== sessionId)) return this.error(socket, 'INVALID_TOKEN', 'Session token missing or invalid');
     const room = this.roomStore.getRoom(lastRoomId);
     if (!room) return this.error(socket, 'RECONNECT_FAILED', 'Room not found');
-    const player = room.players.find((p) => p.id === playerId);
+    const player = room.players.find((p) => p.id === sessionId);
     if (!player) return this.error(socket, 'RECONNECT_FAILED', 'Player not in room');
-    player.connectionId = socket.id; player.connected = true;
-    // @ts-ignore
-    (socket as any).data = (socket as any).data || {};
-    // @ts-ignore
-    (socket as any).data.playerId = player.id;
-    socket.join(room.id);
+    this.resumeSeat(socket, room, player);
+  }
+
+  private resumeSeat(socket: Socket, room: Room, player: Player) {
+    this.bindPlayer(socket, room, player);
     this.roomStore.updateActivity(room);
+    this.sendSession(socket, room, player);
     this.sendFullStateToSocket(socket, room.id, player.id);
     this.broadcastRoomUpdate(room.id);
+    // A room restored after a restart may be waiting on a bot
+    this.scheduleBotTurn(room);
+  }
+
+  // Seat this socket on `player` for personalized emits. A socket still holding the
+  // seat is told so and taken out of this room; it keeps its seats in other rooms.
+  private bindPlayer(socket: Socket, room: Room, player: Player) {
+    const previous = player.connectionId;
+    player.connectionId = socket.id; player.connected = true;
+    socket.data.playerId = player.id;
+    this.join(socket, room.id);
+    if (previous && previous !== socket.id) void this.kickSocket(previous, room.id, player.id);
+  }
+
+  private async kickSocket(socketId: string, roomId: string, playerId: string) {
+    const old = this.io.sockets.sockets.get(socketId);
+    if (!old) return;
+    this.send(old, { type: 'sessionReplaced', payload: { roomId, message: 'Session opened elsewhere' } });
+    if (old.data.playerId === playerId) old.data.playerId = undefined;
+    await this.leave(old, roomId);
+  }
+
+  // A fresh token at every seating, so active players never reach the expiry
+  private sendSession(socket: Socket, room: Room, player: Player) {
+    this.send(socket, { type: 'session', payload: { roomId: room.id, playerId: player.id, token: this.sessions.issue(player.id) } });
+  }
+
+  // The playerId a socket proved with a session token, from the message or the handshake
+  private sessionPlayerId(socket: Socket, payload: { token?: string }): string | undefined {
+    return this.sessions.verify(payload.token ?? socket.handshake.auth?.token);
   }
 
-  private async handleToggleReady(socket: Socket, payload: any) {
-    const { roomId, ready, playerId } = payload || {};
+  private async handleToggleReady(socket: Socket, payload: ToggleReadyPayload) {
+    const { roomId, ready } = payload;
     const room = this.roomStore.getRoom(roomId);
     if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
     let player = this.playerBySocket(room, socket.id);
-    if (!player && playerId) {
-      // Fallback: attach this socket to the playerId provided (robustness on reconnects)
-      const found = room.players.find((p) => p.id === playerId);
+    if (!player) {
+      // Fallback: attach this socket to the seat its session token is for (robustness on reconnects)
+      const sessionId = this.sessionPlayerId(socket, payload);
+      const found = sessionId ? room.players.find((p) => p.id === sessionId) : undefined;
       if (found) {
-        found.connectionId = socket.id;
+        this.bindPlayer(socket, room, found);
         player = found;
-        socket.join(room.id);
-        // @ts-ignore
-        (socket as any).data = (socket as any).data || {};
-        // @ts-ignore
-        (socket as any).data.playerId = found.id;
       }
     }
     if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
-    player.ready = !!ready;
+    player.ready = ready;
     this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
     this.broadcastRoomUpdate(room.id);
   }
 
-  private async handleStartGame(socket: Socket, payload: any) {
-    const { roomId, playerId } = payload || {};
+  // Host changes the room's settings before the game starts
+  private async handleUpdateSettings(socket: Socket, payload: UpdateSettingsPayload) {
+    const { roomId, settings } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player || room.hostId !== player.id) return this.error(socket, 'NOT_HOST', 'Only host can change settings');
+    if (room.status !== 'waiting' || this.importsInFlight.has(room.id)) return this.error(socket, 'INVALID_STATE', 'Game already started or finished');
+    let next: RoomSettings;
+    try {
+      next = applyRoomSettings(room.settings, settings, this.dictionaries);
+    } catch (e: any) {
+      return this.settingsError(socket, e);
+    }
+    if (room.players.length > next.maxPlayers) {
+      return this.error(socket, 'INVALID_SETTINGS', 'More players seated than maxPlayers', { path: 'payload.settings.maxPlayers' });
+    }
+    if (next.rated && room.players.some((p) => p.isBot)) return this.error(socket, 'RATED_NO_BOTS', 'Rated games are for humans only');
+    if (room.players.some((p) => p.isBot) && !this.game.canGenerateMoves({ ...room, settings: next })) {
+      return this.error(socket, 'BOTS_UNAVAILABLE', 'Bots need a dictionary file');
+    }
+    room.settings = next;
+    // Everyone confirms again under the new rules
+    for (const p of room.players) if (!p.isBot) p.ready = false;
+    this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
+    this.broadcastRoomUpdate(room.id);
+  }
+
+  private async handleAddBot(socket: Socket, payload: AddBotPayload) {
+    const { roomId, level = 'greedy' } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player || room.hostId !== player.id) return this.error(socket, 'NOT_HOST', 'Only host can add bots');
+    if (room.settings.rated) return this.error(socket, 'RATED_NO_BOTS', 'Rated games are for humans only');
+    if (!this.game.canGenerateMoves(room)) return this.error(socket, 'BOTS_UNAVAILABLE', 'Bots need a dictionary file');
+    try {
+      this.roomStore.addBot(roomId, level);
+      this.broadcastRoomUpdate(roomId);
+    } catch (e: any) {
+      this.error(socket, errorCode(e, 'ADD_BOT_FAILED'), 'Could not add bot');
+    }
+  }
+
+  private async handleRemoveBot(socket: Socket, payload: RemoveBotPayload) {
+    const { roomId, botId } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player || room.hostId !== player.id) return this.error(socket, 'NOT_HOST', 'Only host can remove bots');
+    if (room.status !== 'waiting') return this.error(socket, 'INVALID_STATE', 'Game already started or finished');
+    const bot = room.players.find((p) => p.id === botId && p.isBot);
+    if (!bot) return this.error(socket, 'BOT_NOT_FOUND', 'Bot not found');
+    this.roomStore.removePlayerFromRoom(roomId, bot.id);
+    this.broadcastRoomUpdate(roomId);
+  }
+
+  private async handleStartGame(socket: Socket, payload: RoomPayload) {
+    const { roomId } = payload;
     const room = this.roomStore.getRoom(roomId);
     if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
     let player = this.playerBySocket(room, socket.id);
-    if (!player && playerId) {
-      const found = room.players.find((p) => p.id === playerId);
+    if (!player) {
+      // Fallback: attach this socket to the seat its session token is for (robustness on reconnects)
+      const sessionId = this.sessionPlayerId(socket, payload);
+      const found = sessionId ? room.players.find((p) => p.id === sessionId) : undefined;
       if (found) {
-        found.connectionId = socket.id;
+        this.bindPlayer(socket, room, found);
         player = found;
-        socket.join(room.id);
-        // @ts-ignore
-        (socket as any).data = (socket as any).data || {};
-        // @ts-ignore
-        (socket as any).data.playerId = found.id;
       }
     }
     if (!player || room.hostId !== player.id) return this.error(socket, 'NOT_HOST', 'Only host can start');
-    if (room.players.length < 2) return this.error(socket, 'MIN_PLAYERS', 'Au moins 2 joueurs requis');
-    if (room.players.length > room.maxPlayers) return this.error(socket, 'ROOM_FULL', 'Room has too many players');
+    if (room.players.length < 2) return this.error(socket, 'MIN_PLAYERS', 'At least 2 players required');
+    if (room.players.length > room.settings.maxPlayers) return this.error(socket, 'ROOM_FULL', 'Room has too many players');
     if (!room.players.every((p) => p.ready)) return this.error(socket, 'NOT_ALL_READY', 'All players must be ready');
-    if (room.status !== 'waiting') return this.error(socket, 'INVALID_STATE', 'Game already started or finished');
+    if (room.status !== 'waiting' || this.importsInFlight.has(room.id)) return this.error(socket, 'INVALID_STATE', 'Game already started or finished');
+    if (room.settings.rated && room.players.some((p) => p.isBot)) return this.error(socket, 'RATED_NO_BOTS', 'Rated games are for humans only');
+    try {
+      this.game.startNewGame(room);
+    } catch (e: any) {
+      return this.error(socket, errorCode(e, 'START_FAILED'), 'Game could not start');
+    }
     room.status = 'playing';
-    this.game.startNewGame(room);
     this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
     this.broadcastRoomUpdate(room.id);
     await this.broadcastGameState(room);
   }
 
-  private async handlePlayMove(socket: Socket, payload: any) {
-    const { roomId, action, placements, tileIdsToExchange } = payload || {};
+  // Host starts the game from a GCG file or a board/rack snapshot instead of an empty board
+  private async handleImportGame(socket: Socket, payload: ImportGamePayload) {
+    const { roomId, format, content, position } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player || room.hostId !== player.id) return this.error(socket, 'NOT_HOST', 'Only host can import a game');
+    if (room.mode === 'duplicate') return this.error(socket, 'INVALID_STATE', 'Imports are for classic games only');
+    if (room.settings.rated) return this.error(socket, 'INVALID_STATE', 'Rated games start from an empty board');
+    if (room.status !== 'waiting' || this.importsInFlight.has(room.id)) return this.error(socket, 'INVALID_STATE', 'Game already started or finished');
+    if (room.players.length < 2) return this.error(socket, 'MIN_PLAYERS', 'At least 2 players required');
+    if (!room.players.every((p) => p.ready)) return this.error(socket, 'NOT_ALL_READY', 'All players must be ready');
+    this.importsInFlight.add(room.id);
+    try {
+      let imported: ImportedPosition;
+      const size = getBoardLayout(room.settings.boardLayout).width;
+      if (format === 'gcg') {
+        if (content === undefined) return this.error(socket, 'BAD_PAYLOAD', 'Missing GCG content', { path: 'payload.content' });
+        imported = parseGcg(content, size, room.settings.language);
+      } else {
+        if (position === undefined) return this.error(socket, 'BAD_PAYLOAD', 'Missing position', { path: 'payload.position' });
+        imported = parseSnapshot(position, size, room.settings.language);
+      }
+      await this.game.startFromPosition(room, imported);
+    } catch (e: any) {
+      return this.error(socket, errorCode(e, 'IMPORT_FAILED'), e?.reason ? `Import failed at ${e.reason}` : 'Import failed', { reason: e?.reason });
+    } finally {
+      this.importsInFlight.delete(room.id);
+    }
+    room.status = 'playing';
+    this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
+    this.broadcastRoomUpdate(room.id);
+    await this.broadcastGameState(room);
+  }
+
+  // `expectedVersion` (classic games) and `moveId` are optional: a move made on an older
+  // state is refused with STALE_STATE, and a repeated moveId gets the original result back
+  private async handlePlayMove(socket: Socket, payload: PlayMovePayload) {
+    const { roomId, action, placements, tileIdsToExchange, expectedVersion, moveId } = payload;
     const room = this.roomStore.getRoom(roomId);
     if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
     const player = this.playerBySocket(room, socket.id);
     if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    const key = moveId ? `${room.id}:${player.id}:${moveId}` : '';
+    if (moveId) {
+      // Checked before any await so that a double click sees the first attempt in flight
+      const inFlight = this.movesInFlight.get(key);
+      if (inFlight) await inFlight;
+      if (this.replayMove(socket, room, player.id, moveId)) return;
+    }
+    const attempt = (async () => {
+      try {
+        // In duplicate rounds a play is a submission; passing gives up the round
+        if (room.mode === 'duplicate') {
+          if (action === 'exchange') throw new Error('NO_EXCHANGE_IN_DUPLICATE');
+          await this.submitDuplicate(room, player.id, action === 'play' ? placements || [] : [], moveId);
+        } else {
+          await this.applyMove(room, player.id, action, placements, tileIdsToExchange, { expectedVersion, moveId });
+        }
+      } catch (e: any) {
+        if (e?.message === 'STALE_STATE') return this.sendStaleState(socket, room, player.id, moveId);
+        const code = errorCode(e, 'INVALID_MOVE');
+        this.send(socket, { type: 'invalidMove', payload: { roomId, code, reason: e?.reason || code, moveId } });
+      }
+    })();
+    if (!key) return attempt;
+    this.movesInFlight.set(key, attempt);
     try {
-      const { move, ended } = await this.game.playMove(room, player.id, action, placements, tileIdsToExchange);
-      // move accepted
-      this.io.to(roomId).emit('message', { type: 'moveAccepted', payload: { roomId, move } });
-      // Broadcast new state to each player with personalized racks
-      await this.broadcastGameState(room);
-      // Turn update broadcast
-      if (room.game) {
-        this.io.to(roomId).emit('message', {
-          type: 'turnUpdate',
-          payload: { roomId, activePlayerId: room.game.activePlayerId, turnEndsAt: room.game.turnEndsAt, version: room.game.version },
-        });
+      await attempt;
+    } finally {
+      this.movesInFlight.delete(key);
+    }
+  }
+
+  // Answer a repeated moveId with what the first request produced; false if it was never played
+  private replayMove(socket: Socket, room: Room, playerId: string, moveId: string): boolean {
+    const move = this.game.findMoveById(room, playerId, moveId);
+    if (move) {
+      this.send(socket, { type: 'moveAccepted', payload: { roomId: room.id, move: toPublicMove(move), replayed: true } });
+      return true;
+    }
+    const dup = room.game?.duplicate;
+    const submission = dup?.submissions[playerId];
+    if (dup && submission?.moveId === moveId) {
+      this.send(socket, { type: 'submissionAccepted', payload: { roomId: room.id, round: dup.round, words: submission.words, score: submission.score, moveId, replayed: true } });
+      return true;
+    }
+    return false;
+  }
+
+  // The move was made on an older state: nothing was played, send the current one
+  private sendStaleState(socket: Socket, room: Room, playerId: string, moveId?: string) {
+    const gameState = room.game ? toGameStateSummaryForPlayer(room.game, room.players, playerId) : undefined;
+    this.error(socket, 'STALE_STATE', 'Game has changed, move not played', { roomId: room.id, moveId, gameState });
+  }
+
+  // Play a move for a human or a bot and broadcast the outcome; throws if the move is rejected
+  private async applyMove(room: Room, playerId: string, action: 'play'|'pass'|'exchange', placements?: MovePlacement[], tileIdsToExchange?: string[], options: PlayMoveOptions = {}) {
+    const roomId = room.id;
+    const { move, ended } = await this.game.playMove(room, playerId, action, placements, tileIdsToExchange, options);
+    this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
+    // move accepted
+    this.broadcast(roomId, { type: 'moveAccepted', payload: { roomId, move: toPublicMove(move) } });
+    // Broadcast new state to each player with personalized racks
+    await this.broadcastGameState(room);
+    // Turn update broadcast
+    this.broadcastTurnUpdate(room);
+    if (ended) this.broadcastGameEnded(room);
+  }
+
+  // Record a duplicate submission, tell the room who has submitted and close the round
+  // once everyone has
+  private async submitDuplicate(room: Room, playerId: string, placements: MovePlacement[], moveId?: string) {
+    const roomId = room.id;
+    const { submission, allSubmitted } = await this.game.submitDuplicatePlay(room, playerId, placements, moveId);
+    this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
+    const dup = room.game!.duplicate!;
+    const player = room.players.find((p) => p.id === playerId);
+    if (player?.connectionId) {
+      this.broadcast(player.connectionId, { type: 'submissionAccepted', payload: { roomId, round: dup.round, words: submission.words, score: submission.score, moveId } });
+    }
+    this.broadcast(roomId, { type: 'duplicateProgress', payload: { roomId, round: dup.round, submittedPlayerIds: Object.keys(dup.submissions) } });
+    if (allSubmitted) await this.finishDuplicateRound(room);
+  }
+
+  // Close the duplicate round (everyone submitted, or the round timer ran out, see tick)
+  private async finishDuplicateRound(room: Room) {
+    const roomId = room.id;
+    const { round, move, results, ended } = this.game.closeDuplicateRound(room);
+    this.roomStore.saveRoom(room);
+    this.broadcast(roomId, {
+      type: 'roundEnded',
+      payload: { roomId, round, move: move ? toPublicMove(move) : undefined, results, standings: this.game.duplicateStandings(room) },
+    });
+    await this.broadcastGameState(room);
+    this.broadcastTurnUpdate(room);
+    if (ended) this.broadcastGameEnded(room);
+  }
+
+  // Let the active player think and play if it is a bot. Called after every game state broadcast.
+  private scheduleBotTurn(room: Room) {
+    const game = room.game;
+    if (room.status === 'playing' && game?.duplicate) return this.scheduleBotSubmissions(room);
+    if (room.status !== 'playing' || !game || this.botTimers.has(room.id)) return;
+    const bot = room.players.find((p) => p.id === game.activePlayerId);
+    if (!bot?.isBot) return;
+    const version = game.version;
+    const timer = setTimeout(async () => {
+      this.botTimers.delete(room.id);
+      const current = this.roomStore.getRoom(room.id);
+      if (!current?.game || current.status !== 'playing') return;
+      // Someone else moved in the meantime (forced pass, leave): reschedule for the new turn
+      if (current.game.version !== version || current.game.activePlayerId !== bot.id) return this.scheduleBotTurn(current);
+      const { action, placements, tileIdsToExchange } = this.bots.chooseAction(current, bot);
+      try {
+        await this.applyMove(current, bot.id, action, placements, tileIdsToExchange);
+      } catch (e: any) {
+        // Retried on the next broadcast (e.g. once a challenge window closes)
+        console.warn(`[bot] ${bot.nickname} could not play in room ${room.id}: ${e?.message || e}`);
       }
-      if (ended) {
-        const scores: Record<string, number> = {};
-        const statsByPlayer: any = {};
-        for (const p of room.players) { scores[p.id] = p.score; statsByPlayer[p.id] = p.stats; }
-        const max = Math.max(...Object.values(scores));
-        const winnerIds = Object.entries(scores).filter(([,s]) => s === max).map(([id]) => id);
-        this.io.to(roomId).emit('message', { type: 'gameEnded', payload: { roomId, scores, statsByPlayer, winnerIds } });
+    }, this.bots.thinkDelayMs());
+    this.botTimers.set(room.id, timer);
+  }
+
+  // In a duplicate round every bot submits on its own timer
+  private scheduleBotSubmissions(room: Room) {
+    const dup = room.game!.duplicate!;
+    const round = dup.round;
+    for (const bot of room.players.filter((p) => p.isBot && !dup.submissions[p.id])) {
+      const key = `${room.id}:${bot.id}`;
+      if (this.botTimers.has(key)) continue;
+      const timer = setTimeout(async () => {
+        this.botTimers.delete(key);
+        const current = this.roomStore.getRoom(room.id);
+        if (current?.status !== 'playing' || current.game?.duplicate?.round !== round) return;
+        const { action, placements } = this.bots.chooseAction(current, bot);
+        try {
+          await this.submitDuplicate(current, bot.id, action === 'play' ? placements || [] : []);
+        } catch (e: any) {
+          console.warn(`[bot] ${bot.nickname} could not submit in room ${room.id}: ${e?.message || e}`);
+        }
+      }, this.bots.thinkDelayMs());
+      this.botTimers.set(key, timer);
+    }
+  }
+
+  private async handleChallenge(socket: Socket, payload: RoomPayload) {
+    const { roomId } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    try {
+      const { move, withdrawn, invalidWords, ended } = await this.game.challenge(room, player.id);
+      this.roomStore.updateActivity(room);
+      this.roomStore.saveRoom(room);
+      this.broadcast(roomId, { type: 'challengeResult', payload: { roomId, move: toPublicMove(move), withdrawn, invalidWords } });
+      await this.broadcastGameState(room);
+      this.broadcastTurnUpdate(room);
+      if (ended) this.broadcastGameEnded(room);
+    } catch (e: any) {
+      this.error(socket, errorCode(e, 'CHALLENGE_FAILED'), 'Challenge rejected');
+    }
+  }
+
+  // The player who just moved asks to undo it; opponents answer with respondTakeback
+  private async handleRequestTakeback(socket: Socket, payload: RoomPayload) {
+    const { roomId } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    try {
+      const { request, move } = this.game.requestTakeback(room, player.id);
+      this.roomStore.updateActivity(room);
+      this.roomStore.saveRoom(room);
+      this.broadcast(roomId, { type: 'takebackRequested', payload: { roomId, ...request } });
+      if (move) await this.broadcastTakeback(room, move);
+    } catch (e: any) {
+      this.error(socket, errorCode(e, 'TAKEBACK_FAILED'), 'Takeback unavailable');
+    }
+  }
+
+  private async handleRespondTakeback(socket: Socket, payload: RespondTakebackPayload) {
+    const { roomId, accept } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    try {
+      const request = room.game?.takebackRequest;
+      const result = this.game.respondTakeback(room, player.id, accept);
+      this.roomStore.updateActivity(room);
+      this.roomStore.saveRoom(room);
+      if (result.status === 'declined') {
+        this.broadcast(roomId, { type: 'takebackDeclined', payload: { roomId, playerId: request!.playerId, declinedBy: player.id } });
+      } else if (result.status === 'pending') {
+        this.broadcast(roomId, { type: 'takebackRequested', payload: { roomId, ...request } });
+      } else {
+        await this.broadcastTakeback(room, result.move);
       }
     } catch (e: any) {
-      const reason = e?.reason || e?.message || 'INVALID_MOVE';
-      socket.emit('message', { type: 'invalidMove', payload: { roomId, reason } });
+      this.error(socket, errorCode(e, 'TAKEBACK_FAILED'), 'Takeback unavailable');
+    }
+  }
+
+  private async broadcastTakeback(room: Room, move: MoveSummary) {
+    this.broadcast(room.id, { type: 'takebackAccepted', payload: { roomId: room.id, move: toPublicMove(move) } });
+    await this.broadcastGameState(room);
+    this.broadcastTurnUpdate(room);
+  }
+
+  // Called by tick once nobody answered in time
+  private expireTakeback(room: Room) {
+    const request = room.game?.takebackRequest;
+    if (!request || !this.game.expireTakebackRequest(room)) return;
+    this.roomStore.saveRoom(room);
+    this.broadcast(room.id, { type: 'takebackDeclined', payload: { roomId: room.id, playerId: request.playerId, reason: 'TIMEOUT' } });
+  }
+
+  private async handleRequestHint(socket: Socket, payload: RequestHintPayload) {
+    const { roomId, count = HINT_DEFAULT_COUNT } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    const { hintPolicy, hintsPerPlayer } = room.settings;
+    if (hintPolicy === 'off' || room.mode === 'duplicate') return this.error(socket, 'HINTS_DISABLED', 'Hints are disabled in this room');
+    if (room.status !== 'playing' || !room.game) return this.error(socket, 'INVALID_STATE', 'No game in progress');
+    const used = room.game.hintsUsed[player.id] || 0;
+    if (hintPolicy === 'limited' && used >= hintsPerPlayer) return this.error(socket, 'HINT_LIMIT_REACHED', 'No hints left');
+    const limit = Math.max(1, Math.min(HINT_MAX_COUNT, count || HINT_DEFAULT_COUNT));
+    try {
+      const moves = this.game.findMoves(room, player.id, limit);
+      room.game.hintsUsed[player.id] = used + 1;
+      this.roomStore.saveRoom(room);
+      const hintsLeft = hintPolicy === 'limited' ? hintsPerPlayer - used - 1 : undefined;
+      this.send(socket, { type: 'hint', payload: { roomId, moves, hintsLeft, version: room.game.version } });
+    } catch (e: any) {
+      this.error(socket, errorCode(e, 'HINT_FAILED'), 'Hint unavailable');
+    }
+  }
+
+  // Words and score of a placement as the player drags tiles, nothing is played
+  private async handlePreviewMove(socket: Socket, payload: PreviewMovePayload) {
+    const { roomId, placements } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    if (room.status !== 'playing' || !room.game) return this.error(socket, 'INVALID_STATE', 'No game in progress');
+    try {
+      const preview = await this.game.previewMove(room, player.id, placements);
+      this.send(socket, { type: 'movePreview', payload: { roomId, placements, ...preview, version: room.game?.version } });
+    } catch (e: any) {
+      this.error(socket, errorCode(e, 'PREVIEW_FAILED'), 'Preview unavailable');
+    }
+  }
+
+  private async handleExportGame(socket: Socket, payload: RoomPayload) {
+    const { roomId } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    if (!this.playerBySocket(room, socket.id) && !this.spectatorBySocket(room, socket.id)) return this.error(socket, 'NOT_IN_ROOM', 'Not in room');
+    if (!room.game) return this.error(socket, 'NO_GAME', 'No game to export');
+    const content = exportGcg(room, { revealRacks: room.status === 'finished' });
+    this.send(socket, { type: 'gameExport', payload: { roomId, format: 'gcg', content } });
+  }
+
+  private async handleChatMessage(socket: Socket, payload: ChatMessagePayload) {
+    const { roomId, text } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    // Players write on the players' channel, spectators on their own
+    const player = this.playerBySocket(room, socket.id);
+    const spectator = player ? undefined : this.spectatorBySocket(room, socket.id);
+    const sender = player || spectator;
+    if (!sender) return this.error(socket, 'NOT_IN_ROOM', 'Not in this room');
+    let message: ChatMessage;
+    try {
+      message = this.chat.post(room, sender, player ? 'players' : 'spectators', text);
+    } catch (e: any) {
+      const messages: Record<string, string> = {
+        CHAT_EMPTY: 'Empty message',
+        CHAT_TOO_LONG: 'Message too long',
+        CHAT_MUTED: 'Muted by the host',
+        CHAT_RATE_LIMITED: 'Too many messages, slow down',
+      };
+      return this.error(socket, errorCode(e, 'CHAT_FAILED'), messages[e?.message] || 'Message rejected');
     }
+    this.roomStore.updateActivity(room);
+    this.roomStore.saveRoom(room);
+    this.emitChat(room, message);
+  }
+
+  // Host only: silence (or give back the word to) a player or spectator
+  private async handleMuteChat(socket: Socket, payload: MuteChatPayload) {
+    const { roomId, targetId, muted = true } = payload;
+    const room = this.roomStore.getRoom(roomId);
+    if (!room) return this.error(socket, 'ROOM_NOT_FOUND', 'Room not found');
+    const player = this.playerBySocket(room, socket.id);
+    if (!player || player.id !== room.hostId) return this.error(socket, 'NOT_HOST', 'Only host can mute');
+    if (targetId === player.id) return this.error(socket, 'BAD_PAYLOAD', 'Cannot mute yourself', { path: 'payload.targetId' });
+    const target = room.players.find((p) => p.id === targetId) || room.spectators.find((s) => s.id === targetId);
+    if (!target) return this.error(socket, 'BAD_PAYLOAD', 'Unknown player', { path: 'payload.targetId' });
+    const key = 'chatKey' in target ? target.chatKey : target.id;
+    const already = room.mutedKeys.includes(key);
+    if (muted === already) return;
+    room.mutedKeys = muted ? [...room.mutedKeys, key] : room.mutedKeys.filter((k) => k !== key);
+    this.postSystem(room, muted ? `${target.nickname} was muted` : `${target.nickname} can chat again`);
+    this.broadcastRoomUpdate(room.id);
+  }
+
+  private postSystem(room: Room, text: string, channel: ChatMessage['channel'] = 'players') {
+    const message = this.chat.system(room, text, channel);
+    this.roomStore.saveRoom(room);
+    this.emitChat(room, message);
+  }
+
+  // The players' channel goes to the whole room; the spectators' one only reaches
+  // players outside a game
+  private emitChat(room: Room, message: ChatMessage) {
+    const event: ServerMessage = { type: 'chatMessage', payload: { roomId: room.id, message } };
+    if (this.chat.canRead(room, message, false)) {
+      this.broadcast(room.id, event);
+      return;
+    }
+    for (const spectator of room.spectators) {
+      if (spectator.connectionId) this.broadcast(spectator.connectionId, event);
+    }
+  }
+
+  private async handleGetProfile(socket: Socket, payload: GetProfilePayload) {
+    const { playerId } = payload;
+    const profile = this.profiles.getProfile(playerId);
+    if (!profile) return this.error(socket, 'PLAYER_NOT_FOUND', 'No finished game for this player');
+    this.send(socket, { type: 'profile', payload: { profile: toProfileSummary(profile) } });
   }
 
-  private async handleLeaveRoom(socket: Socket, payload: any) {
-    const { roomId } = payload || {};
+  private async handleLeaveRoom(socket: Socket, payload: RoomPayload) {
+    const { roomId } = payload;
     const room = this.roomStore.getRoom(roomId);
     if (!room) return;
+    const spectator = this.spectatorBySocket(room, socket.id);
+    if (spectator) {
+      this.roomStore.removeSpectator(roomId, spectator.id);
+      await this.leave(socket, roomId);
+      this.postSystem(room, `${spectator.nickname} stopped watching the game`, 'spectators');
+      this.broadcastRoomUpdate(roomId);
+      return;
+    }
     const player = this.playerBySocket(room, socket.id);
     if (!player) return;
-    // If it's the active player during a game, force a pass to advance turn
-    if (room.game && room.game.activePlayerId === player.id) {
+    const previousHostId = room.hostId;
+    // Remove player from room and leave socket room
+    const removed = this.roomStore.removePlayerFromRoom(roomId, player.id);
+    await this.leave(socket, roomId);
+    // Leaving a running game forfeits it; the game is recorded even if the room is gone
+    let ended = false;
+    if (removed) {
       try {
-        await this.game.playMove(room, player.id, 'pass');
+        ({ ended } = await this.game.forfeit(room, removed.player, removed.seat));
       } catch (e) {
-        // ignore
+        console.error('[room] error forfeiting', e);
       }
     }
-    // Remove player from room and leave socket room
-    this.roomStore.removePlayerFromRoom(roomId, player.id);
-    await socket.leave(roomId);
     // If room still exists, broadcast update (host may have changed)
     const remaining = this.roomStore.getRoom(roomId);
     if (remaining) {
+      this.postSystem(remaining, `${player.nickname} left the game`);
+      const host = remaining.hostId !== previousHostId ? remaining.players.find((p) => p.id === remaining.hostId) : undefined;
+      if (host) this.postSystem(remaining, `${host.nickname} is now the host`);
+      this.roomStore.saveRoom(remaining);
       this.broadcastRoomUpdate(roomId);
-      // Optionally broadcast game state if in playing state
-      if (remaining.game) await this.broadcastGameState(remaining);
+      if (remaining.game && remaining.status === 'playing') {
+        this.broadcastTurnUpdate(remaining);
+        await this.broadcastGameState(remaining);
+        // The players still in a duplicate round may all have submitted already
+        const dup = remaining.game.duplicate;
+        if (dup && remaining.players.every((p) => !!dup.submissions[p.id])) await this.finishDuplicateRound(remaining);
+      } else if (ended) {
+        await this.broadcastGameState(remaining);
+        this.broadcastGameEnded(remaining);
+      }
+    } else {
+      this.forgetRoom(roomId);
     }
     console.log(`[room:${roomId}] Player ${player.id} left room`);
   }
 
+  // Drop what is kept for a room that was deleted (last human left, or idle cleanup)
+  forgetRoom(roomId: string) {
+    for (const [key, timer] of this.botTimers) {
+      if (key !== roomId && !key.startsWith(`${roomId}:`)) continue;
+      clearTimeout(timer);
+      this.botTimers.delete(key);
+    }
+    this.rackSnapshots.delete(roomId);
+    this.chat.forgetRoom(roomId);
+  }
+
+  // Run by the tick loop in index.ts: timers that ran out since the last tick. A tick still
+  // running when the next one comes makes that one a no-op; a failure is logged and only
+  // holds up its own room.
+  async tick(now: number) {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      // Quick match groups that waited long enough start with whoever is there
+      try {
+        await this.expireQuickMatches();
+      } catch (e) {
+        console.error('[turn] error starting quick matches', e);
+      }
+      for (const room of this.roomStore.listRooms()) {
+        try {
+          await this.tickRoom(room, now);
+        } catch (e) {
+          console.error(`[turn] error in room ${room.id}`, e);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async tickRoom(room: Room, now: number) {
+    if (room.status !== 'playing' || !room.game) return;
+    // Takeback requests nobody answered in time are dropped
+    if (room.game.takebackRequest && now > room.game.takebackRequest.expiresAt) this.expireTakeback(room);
+    // Close expired challenge windows; the play stands and may have ended the game
+    if (room.game.pendingChallenge && now > room.game.pendingChallenge.expiresAt) {
+      const ended = this.game.closeExpiredChallenge(room);
+      this.roomStore.saveRoom(room);
+      await this.broadcastGameState(room);
+      if (ended) {
+        this.broadcastGameEnded(room);
+        return;
+      }
+    }
+    // Duplicate rounds close when their timer runs out
+    if (room.game.duplicate) {
+      if (now > room.game.turnEndsAt) await this.finishDuplicateRound(room);
+      return;
+    }
+    if (now > room.game.turnEndsAt) {
+      // Turn time used up (a forced pass), or chess clock overtime (the game ends)
+      const { ended } = await this.game.expireTurn(room);
+      this.roomStore.saveRoom(room);
+      this.broadcastTurnUpdate(room);
+      await this.broadcastGameState(room);
+      if (ended) this.broadcastGameEnded(room);
+    }
+  }
+
   // Broadcast helpers
   private broadcastRoomUpdate(roomId: string) {
     const room = this.roomStore.getRoom(roomId);
+    if ((room && isListedInLobby(room)) || this.lobbyRoomIds.has(roomId)) this.broadcastLobby();
     if (!room) return;
-    const summary = toRoomSummary(room);
-    this.io.to(roomId).emit('message', { type: 'roomUpdate', payload: { room: summary } });
+    const summary = toRoomSummary(room, this.ratings);
+    this.broadcast(roomId, { type: 'roomUpdate', payload: { room: summary } });
+  }
+
+  private broadcastLobby() {
+    const rooms = this.lobbyRooms();
+    this.lobbyRoomIds = new Set(rooms.map((r) => r.id));
+    this.broadcast(LOBBY, { type: 'lobby', payload: { rooms: rooms.map((r) => toRoomSummary(r, this.ratings)) } });
+  }
+
+  private lobbyRooms(): Room[] {
+    return this.roomStore.listRooms().filter(isListedInLobby);
   }
 
   private async broadcastGameState(room: Room) {
     if (!room.game) return;
+    this.scheduleBotTurn(room);
     const sockets = await this.io.in(room.id).fetchSockets();
     if (sockets.length === 0) {
       console.log(`[ws] broadcastGameState: no sockets in room ${room.id}, falling back to connectionId emissions.`);
       for (const p of room.players) {
         if (!p.connectionId) continue;
         const gs = toGameStateSummaryForPlayer(room.game, room.players, p.id);
-        this.io.to(p.connectionId).emit('message', { type: 'gameState', payload: { roomId: room.id, gameState: gs } });
+        this.broadcast(p.connectionId, { type: 'gameState', payload: { roomId: room.id, gameState: gs } });
       }
       return;
     }
     console.log(`[ws] broadcastGameState: ${sockets.length} sockets in room ${room.id}`);
+    this.recordRackSnapshot(room);
     for (const s of sockets) {
-      // @ts-ignore
-      const pid = (s as any).data?.playerId as string | undefined;
-      if (!pid) {
-        console.log(`[ws] socket ${s.id} missing playerId data; skipping personalized gameState`);
-        continue;
+      // Seats are looked up in this room: the socket data only tells the last room joined
+      const player = this.playerBySocket(room, s.id);
+      if (player) {
+        const gs = toGameStateSummaryForPlayer(room.game, room.players, player.id);
+        this.broadcast(s.id, { type: 'gameState', payload: { roomId: room.id, gameState: gs } });
+      } else if (this.spectatorBySocket(room, s.id)) {
+        this.broadcast(s.id, { type: 'gameState', payload: { roomId: room.id, gameState: this.toGameStateSummaryForSpectator(room) } });
       }
-      const gs = toGameStateSummaryForPlayer(room.game, room.players, pid);
-      this.io.to(s.id).emit('message', { type: 'gameState', payload: { roomId: room.id, gameState: gs } });
     }
   }
 
+  // The result is already in the players' profiles (GameService hands every ending to the
+  // GameRecorder); new ratings show in the room summary
+  private broadcastGameEnded(room: Room) {
+    this.roomStore.saveRoom(room);
+    if (room.game?.ratingChanges) this.broadcastRoomUpdate(room.id);
+    this.broadcast(room.id, { type: 'gameEnded', payload: toGameResults(room, this.game) });
+  }
+
   private sendFullStateToSocket(socket: Socket, roomId: string, playerId: string) {
     const room = this.roomStore.getRoom(roomId)!;
-    const summary = toRoomSummary(room);
+    const summary = toRoomSummary(room, this.ratings);
     const gs = room.game ? toGameStateSummaryForPlayer(room.game, room.players, playerId) : undefined;
-    socket.emit('message', { type: 'fullState', payload: { room: summary, gameState: gs } });
+    const chat = this.chat.history(room, false);
+    this.send(socket, { type: 'fullState', payload: { room: summary, layout: roomLayout(room), gameState: gs, chat } });
   }
 
   private playerBySocket(room: Room, socketId: string): Player | undefined {
     return room.players.find((p) => p.connectionId === socketId);
   }
 
-  private error(socket: Socket, code: string, message: string) {
-    socket.emit('message', { type: 'error', payload: { code, message } });
+  private spectatorBySocket(room: Room, socketId: string): Spectator | undefined {
+    return room.spectators.find((s) => s.connectionId === socketId);
+  }
+
+  // Spectators see everything but racks; with a rack delay they see the racks as they
+  // were that long ago (all of them once the game is over)
+  private toGameStateSummaryForSpectator(room: Room): GameStateSummary {
+    const gs = toGameStateSummaryForPlayer(room.game!, room.players, '');
+    const delay = room.spectatorRackDelayMs;
+    if (delay === null || delay === undefined) return gs;
+    if (delay <= 0 || room.status === 'finished') return { ...gs, racksByPlayer: currentRacks(room) };
+    const cutoff = Date.now() - delay;
+    const eligible = (this.rackSnapshots.get(room.id) || []).filter((snap) => snap.at <= cutoff);
+    return { ...gs, racksByPlayer: eligible.length > 0 ? eligible[eligible.length - 1].racks : {} };
+  }
+
+  // Remember racks after each state change and replay them to spectators once the delay has passed
+  private recordRackSnapshot(room: Room) {
+    const delay = room.spectatorRackDelayMs;
+    if (!delay || delay <= 0 || !room.game) return;
+    const now = Date.now();
+    const snapshots = (this.rackSnapshots.get(room.id) || []).concat({ at: now, racks: currentRacks(room) });
+    // Keep only the newest snapshot already visible, plus those still pending
+    const lastVisible = snapshots.map((snap) => snap.at <= now - delay).lastIndexOf(true);
+    this.rackSnapshots.set(room.id, snapshots.slice(Math.max(0, lastVisible)));
+    setTimeout(() => this.broadcastSpectatorState(room.id), delay + 50).unref();
+  }
+
+  private async broadcastSpectatorState(roomId: string) {
+    const room = this.roomStore.getRoom(roomId);
+    if (!room?.game) {
+      this.rackSnapshots.delete(roomId);
+      return;
+    }
+    for (const spectator of room.spectators) {
+      if (!spectator.connectionId) continue;
+      this.broadcast(spectator.connectionId, { type: 'gameState', payload: { roomId, gameState: this.toGameStateSummaryForSpectator(room) } });
+    }
+  }
+
+  // Reply to `socket` in its protocol version, echoing the requestId of the message being
+  // handled when it came from that socket. Nothing is sent for a feature the client lacks.
+  private send(socket: { id: string; data: SocketData; emit: (event: 'message', message: OutboundMessage) => unknown }, message: ServerMessage) {
+    const { protocolVersion, features } = socket.data;
+    const feature = messageFeature(message.type);
+    if (feature && !features.includes(feature)) return;
+    const request = this.requests.getStore();
+    const requestId = message.requestId ?? (request?.socketId === socket.id ? request.requestId : undefined);
+    const adapted = adaptMessage({ ...message, requestId }, protocolVersion);
+    if (adapted) socket.emit('message', adapted);
   }
+
+  // To a socket.io room: a game room, the lobby or a single socket id. Sockets on older
+  // protocol versions get it converted through the version twin of the room; those whose
+  // client lacks the message's feature don't get it.
+  private broadcast(to: string, message: ServerMessage) {
+    const feature = messageFeature(message.type);
+    const lacking = feature ? [featureRoom(feature)] : [];
+    this.io.to(to).except([...OUTDATED_ROOMS, ...lacking]).emit('message', message);
+    for (const version of OLDER_PROTOCOL_VERSIONS) {
+      const adapted = adaptMessage(message, version);
+      if (adapted) this.io.to(versionRoom(to, version)).except(lacking).emit('message', adapted);
+    }
+  }
+
+  private broadcastTurnUpdate(room: Room) {
+    if (!room.game) return;
+    const { activePlayerId, turnEndsAt, version } = room.game;
+    this.broadcast(room.id, { type: 'turnUpdate', payload: { roomId: room.id, activePlayerId, turnEndsAt, version } });
+  }
+
+  private error(socket: Socket, code: ErrorCode, message: string, details: Omit<ErrorPayload, 'code' | 'message'> = {}) {
+    this.send(socket, { type: 'error', payload: { code, message, ...details } });
+  }
+
+  // INVALID_SETTINGS names the offending field as `reason`; `prefix` is where the settings sit in the payload
+  private settingsError(socket: Socket, e: any, prefix = 'payload.settings') {
+    const field = e?.reason;
+    const path = field && field !== 'settings' ? `${prefix}.${field}` : prefix;
+    return this.error(socket, errorCode(e, 'INVALID_SETTINGS'), `Invalid setting: ${field}`, { path });
+  }
+}
+
+function isErrorCode(code: unknown): code is ErrorCode {
+  return (ERROR_CODES as readonly unknown[]).includes(code);
+}
+
+// The code a service error was thrown with, or `fallback` for an unexpected one
+function errorCode(e: any, fallback: ErrorCode): ErrorCode {
+  return isErrorCode(e?.message) ? e.message : fallback;
 }
 
-function toRoomSummary(room: Room): RoomSummary {
-  return {
-    id: room.id,
-    hostId: room.hostId,
-    status: room.status,
-    maxPlayers: room.maxPlayers,
-    players: room.players.map((p) => ({
-      id: p.id,
-      nickname: p.nickname,
-      connected: p.connected,
-      ready: p.ready,
-      host: p.id === room.hostId,
-      score: p.score,
-    })),
-  };
+// Public rooms still waiting for players, with someone there to start them
+function isListedInLobby(room: Room): boolean {
+  return room.visibility === 'public' && room.status === 'waiting' && room.players.length < room.settings.maxPlayers && room.players.some((p) => p.connected && !p.isBot);
 }
 
-function toGameStateSummaryForPlayer(game: GameState, players: Player[], playerId: string): GameStateSummary {
-  const board = game.board.map((row) =>
-    row.map((c) => ({
-      // Preserve jokers visually: show '?' for tiles with empty letter (isJoker)
-      letter: c.tile ? (c.tile.isJoker ? '?' : (c.tile.letter || undefined)) : undefined,
-      // Keep 0-point value for jokers (no || undefined here)
-      points: c.tile ? c.tile.value : undefined,
-      bonus: c.bonus,
-    })),
-  );
-  const me = players.find((p) => p.id === playerId);
-  const scoresByPlayer: Record<string, number> = {};
-  for (const p of players) scoresByPlayer[p.id] = p.score;
-  const name = (pid: string) => players.find((pp) => pp.id === pid)?.nickname || pid;
-  const log = (game.log || []).map((m) => {
-    if (m.action === 'play') {
-      const words = m.words.filter(Boolean).join(', ');
-      return { playerId: m.playerId, action: 'play' as const, summary: `${name(m.playerId)}: ${words} (+${m.score})` };
-    }
-    if (m.action === 'exchange') {
-      return { playerId: m.playerId, action: 'exchange' as const, summary: `${name(m.playerId)}: échange de lettres` };
-    }
-    return { playerId: m.playerId, action: 'pass' as const, summary: `${name(m.playerId)}: passe` };
-  });
-  return {
-    board,
-    myRack: (me?.rack || []).map((t) => ({ tileId: t.id, letter: t.letter, points: t.value })),
-    scoresByPlayer,
-    activePlayerId: game.activePlayerId,
-    turnEndsAt: game.turnEndsAt,
-    turnDurationMs: game.turnDurationMs,
-    bagCount: game.bag.length,
-    log,
-    version: game.version,
-  };
+// Fill in the defaults of a requested time control; undefined if it is invalid
+function parseTimeControl(input: any): TimeControl | undefined {
+  const mode = input?.mode ?? 'perTurn';
+  if (!TIME_CONTROL_MODES.includes(mode)) return undefined;
+  if (mode === 'perTurn') return { mode, initialMs: 0, incrementMs: 0 };
+  const initialMs = input.initialMs ?? CHESS_CLOCK_DEFAULT_MS;
+  const incrementMs = mode === 'chessClockIncrement' ? input.incrementMs ?? CLOCK_INCREMENT_DEFAULT_MS : 0;
+  if (!Number.isInteger(initialMs) || initialMs < 60_000 || initialMs > CHESS_CLOCK_MAX_MS) return undefined;
+  if (!Number.isInteger(incrementMs) || incrementMs < 0 || incrementMs > CLOCK_INCREMENT_MAX_MS) return undefined;
+  return { mode, initialMs, incrementMs };
 }
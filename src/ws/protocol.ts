@@ -0,0 +1,141 @@
+import { PROTOCOL_FEATURES, PROTOCOL_LEGACY_VERSION, PROTOCOL_MIN_VERSION, PROTOCOL_VERSION } from '../config/constants';
+import type { ProtocolFeature } from '../config/constants';
+import type { GameStateSummary, HelloPayload, MoveAction, MoveSummary, PlayerSummary, RequestId, RoomSummary, ServerMessage } from '../models/types';
+
+// Protocol versions, newest last:
+// 1: before versions. Only the game messages (error, fullState, roomUpdate, gameState,
+//    turnUpdate, moveAccepted, invalidMove, gameEnded) in their original shapes, plus the
+//    session tokens reconnects need: room summaries carry maxPlayers and hintsEnabled at
+//    the top level (they moved into settings) and move logs only know plays, passes and
+//    exchanges.
+// 2: room rules only in settings; logs name every MoveAction (withdraw, takeback...).
+// Messages are built in the current version and converted down for older connections.
+// Whatever the version, message types of a feature only go to clients that handle it.
+
+// Versions still spoken other than the current one, each needing its own conversion
+export const OLDER_PROTOCOL_VERSIONS: number[] = Array.from({ length: PROTOCOL_VERSION - PROTOCOL_MIN_VERSION }, (_, i) => PROTOCOL_MIN_VERSION + i);
+
+export type Negotiation =
+  | { ok: true; version: number; features: ProtocolFeature[] }
+  | { ok: false; message: string; missingFeatures?: string[] };
+
+// The newest version both sides speak, and the features both handle
+export function negotiate(hello: HelloPayload): Negotiation {
+  const version = Math.min(hello.version, PROTOCOL_VERSION);
+  const oldest = Math.max(hello.minVersion ?? hello.version, PROTOCOL_MIN_VERSION);
+  if (version < oldest) {
+    const message = hello.version < PROTOCOL_MIN_VERSION
+      ? `Client protocol ${hello.version} is no longer supported, upgrade to ${PROTOCOL_MIN_VERSION} or later`
+      : `Client needs protocol ${oldest} or later, the server speaks up to ${PROTOCOL_VERSION}`;
+    return { ok: false, message };
+  }
+  const missingFeatures = (hello.requiredFeatures || []).filter((f) => !PROTOCOL_FEATURES.includes(f as ProtocolFeature));
+  if (missingFeatures.length > 0) return { ok: false, message: `Features not supported by the server: ${missingFeatures.join(', ')}`, missingFeatures };
+  // Leaving the list out means every feature of the version, and version 1 has none
+  const features = hello.features
+    ? PROTOCOL_FEATURES.filter((f) => hello.features!.includes(f))
+    : version > PROTOCOL_LEGACY_VERSION ? [...PROTOCOL_FEATURES] : [];
+  return { ok: true, version, features };
+}
+
+// Message types only sent to clients that handle their feature; the others go to everyone.
+// Sessions and requestId echoes are never held back: without its token a client could not
+// reconnect, and a requestId is only echoed to the client that sent it.
+const FEATURE_MESSAGES: Partial<Record<ProtocolFeature, Array<ServerMessage['type']>>> = {
+  lobby: ['lobby'],
+  quickMatch: ['quickMatchQueued', 'quickMatchFound', 'quickMatchCancelled'],
+  duplicate: ['submissionAccepted', 'duplicateProgress', 'roundEnded'],
+  challenges: ['challengeResult'],
+  takebacks: ['takebackRequested', 'takebackDeclined', 'takebackAccepted'],
+  hints: ['hint'],
+  movePreview: ['movePreview'],
+  exports: ['gameExport'],
+  chat: ['chatMessage'],
+  profiles: ['profile'],
+};
+
+export function messageFeature(type: ServerMessage['type']): ProtocolFeature | undefined {
+  return (Object.keys(FEATURE_MESSAGES) as ProtocolFeature[]).find((f) => FEATURE_MESSAGES[f]!.includes(type));
+}
+
+// A message as sent on the wire, in whichever version's shape
+export interface OutboundMessage {
+  type: ServerMessage['type'];
+  payload: object;
+  requestId?: RequestId;
+}
+
+// `message` as a connection on `version` expects it, or undefined when that version has no
+// such message
+export function adaptMessage(message: ServerMessage, version: number): OutboundMessage | undefined {
+  if (version >= PROTOCOL_VERSION) return message;
+  return toVersion1(message);
+}
+
+const VERSION_1_ACTIONS: MoveAction[] = ['play', 'pass', 'exchange'];
+
+type PlayerSummaryV1 = Pick<PlayerSummary, 'id' | 'nickname' | 'connected' | 'ready' | 'host' | 'score'>;
+type RoomSummaryV1 = Pick<RoomSummary, 'id' | 'hostId' | 'status' | 'maxPlayers' | 'hintsEnabled'> & { players: PlayerSummaryV1[] };
+type GameStateSummaryV1 = Pick<GameStateSummary, 'board' | 'myRack' | 'scoresByPlayer' | 'activePlayerId' | 'turnEndsAt' | 'turnDurationMs' | 'bagCount' | 'version'>
+  & { log: Array<{ playerId: string; action: 'play' | 'pass' | 'exchange'; summary: string }> };
+type MoveSummaryV1 = Pick<MoveSummary, 'playerId' | 'words' | 'score' | 'placements' | 'turnNumber' | 'createdAt'> & { action: 'play' | 'pass' | 'exchange' };
+
+// Message types of a feature pass as they are: only clients that asked for it get them.
+// Other types version 1 doesn't know are dropped; welcome is kept, it answers a hello, and
+// so are sessions, whose token every reconnect needs.
+function toVersion1(message: ServerMessage): OutboundMessage | undefined {
+  const { type, requestId } = message;
+  switch (message.type) {
+    case 'welcome':
+    case 'session':
+    case 'sessionReplaced':
+      return message;
+    case 'error':
+      return { type, payload: { code: message.payload.code, message: message.payload.message }, requestId };
+    case 'fullState': {
+      const { room, gameState } = message.payload;
+      return { type, payload: { room: roomToVersion1(room), gameState: gameState && gameStateToVersion1(gameState) }, requestId };
+    }
+    case 'roomUpdate':
+      return { type, payload: { room: roomToVersion1(message.payload.room) }, requestId };
+    case 'lobby':
+      return { type, payload: { rooms: message.payload.rooms.map(roomToVersion1) }, requestId };
+    case 'gameState':
+      return { type, payload: { roomId: message.payload.roomId, gameState: gameStateToVersion1(message.payload.gameState) }, requestId };
+    case 'turnUpdate': {
+      const { roomId, activePlayerId, turnEndsAt, version } = message.payload;
+      return { type, payload: { roomId, activePlayerId, turnEndsAt, version }, requestId };
+    }
+    case 'moveAccepted':
+      return { type, payload: { roomId: message.payload.roomId, move: moveToVersion1(message.payload.move) }, requestId };
+    case 'invalidMove':
+      return { type, payload: { roomId: message.payload.roomId, reason: message.payload.reason }, requestId };
+    case 'gameEnded': {
+      const { roomId, scores, statsByPlayer, winnerIds } = message.payload;
+      return { type, payload: { roomId, scores, statsByPlayer, winnerIds }, requestId };
+    }
+    default:
+      return messageFeature(type) ? message : undefined;
+  }
+}
+
+function roomToVersion1(room: RoomSummary): RoomSummaryV1 {
+  const players = room.players.map(({ id, nickname, connected, ready, host, score }) => ({ id, nickname, connected, ready, host, score }));
+  return { id: room.id, hostId: room.hostId, status: room.status, maxPlayers: room.settings.maxPlayers, hintsEnabled: room.settings.hintPolicy !== 'off', players };
+}
+
+// Withdrawals, penalties and takebacks show as passes; their summary still tells what happened
+function gameStateToVersion1(gameState: GameStateSummary): GameStateSummaryV1 {
+  const { board, myRack, scoresByPlayer, activePlayerId, turnEndsAt, turnDurationMs, bagCount, version } = gameState;
+  const log = gameState.log.map((entry) => ({ ...entry, action: actionToVersion1(entry.action) }));
+  return { board, myRack, scoresByPlayer, activePlayerId, turnEndsAt, turnDurationMs, bagCount, log, version };
+}
+
+function moveToVersion1(move: MoveSummary): MoveSummaryV1 {
+  const { playerId, words, score, placements, turnNumber, createdAt } = move;
+  return { playerId, action: actionToVersion1(move.action), words, score, placements, turnNumber, createdAt };
+}
+
+function actionToVersion1(action: MoveAction): MoveSummaryV1['action'] {
+  return VERSION_1_ACTIONS.includes(action) ? (action as MoveSummaryV1['action']) : 'pass';
+}
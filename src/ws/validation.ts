@@ -0,0 +1,164 @@
+import {
+  BOT_LEVELS, CHALLENGE_RULES, GAME_MODES, LANGUAGES, LEGACY_CHALLENGE_RULE, MOVE_ID_MAX_LENGTH, REQUEST_ID_MAX_LENGTH, ROOM_VISIBILITIES, TIME_CONTROL_MODES,
+} from '../config/constants';
+import type { ClientMessage, ClientMessageType, RequestId } from '../models/types';
+
+// Runtime checks of the inbound messages against the shapes in models/types.ts. Only the
+// shape is checked here (types, required fields, known values); rules stay with the
+// handlers and services. Unknown fields are let through for newer clients.
+
+// Where the first problem is, e.g. 'payload.placements[2].x', and what was expected there
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+type Schema = (value: unknown, path: string) => ValidationError | undefined;
+
+export type ParsedMessage =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; code: 'BAD_MESSAGE' | 'UNKNOWN_TYPE' | 'BAD_PAYLOAD'; error: ValidationError; requestId?: RequestId };
+
+// Ids, nicknames and room codes; longer nicknames are cut to 15 characters by the RoomStore
+const SHORT_TEXT = 64;
+const TOKEN_MAX_LENGTH = 512;
+
+function fail(path: string, message: string): ValidationError {
+  return { path, message };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function text({ min = 1, max = SHORT_TEXT }: { min?: number; max?: number } = {}): Schema {
+  return (value, path) => {
+    if (typeof value !== 'string') return fail(path, 'expected a string');
+    if (value.length < min || value.length > max) return fail(path, `expected ${min} to ${max} characters`);
+  };
+}
+
+function integer(min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER): Schema {
+  return (value, path) => {
+    if (!Number.isInteger(value)) return fail(path, 'expected an integer');
+    if ((value as number) < min || (value as number) > max) return fail(path, `expected an integer from ${min} to ${max}`);
+  };
+}
+
+function boolean(): Schema {
+  return (value, path) => (typeof value === 'boolean' ? undefined : fail(path, 'expected a boolean'));
+}
+
+function oneOf(values: readonly string[]): Schema {
+  return (value, path) => (values.includes(value as string) ? undefined : fail(path, `expected one of ${values.join(', ')}`));
+}
+
+function list(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'expected an array');
+    for (let i = 0; i < value.length; i++) {
+      const error = item(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+  };
+}
+
+// Every field is required unless wrapped in optional()
+function object(shape: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (!isObject(value)) return fail(path, 'expected an object');
+    for (const [key, schema] of Object.entries(shape)) {
+      const error = schema(value[key], `${path}.${key}`);
+      if (error) return error;
+    }
+  };
+}
+
+// Any plain object; its fields are checked where it is used (room settings, snapshots)
+function record(): Schema {
+  return (value, path) => (isObject(value) ? undefined : fail(path, 'expected an object'));
+}
+
+function optional(schema: Schema): Schema {
+  return (value, path) => (value === undefined ? undefined : schema(value, path));
+}
+
+function nullable(schema: Schema): Schema {
+  return (value, path) => (value === null ? undefined : schema(value, path));
+}
+
+const roomId = text();
+const nickname = text();
+const token = optional(text({ max: TOKEN_MAX_LENGTH }));
+const timeControl = optional(object({ mode: optional(oneOf(TIME_CONTROL_MODES)), initialMs: optional(integer()), incrementMs: optional(integer()) }));
+const placement = object({ x: integer(0), y: integer(0), tileId: text(), assignedLetter: optional(text({ max: 3 })) });
+const inRoom = object({ roomId });
+const empty = object({});
+
+const PAYLOADS: Record<ClientMessageType, Schema> = {
+  hello: object({ version: integer(0), minVersion: optional(integer(0)), features: optional(list(text())), requiredFeatures: optional(list(text())) }),
+  createRoom: object({
+    nickname,
+    settings: optional(record()),
+    maxPlayers: optional(integer()),
+    hintsEnabled: optional(boolean()),
+    mode: optional(oneOf(GAME_MODES)),
+    timeControl,
+    challengeRule: optional(oneOf([...CHALLENGE_RULES, LEGACY_CHALLENGE_RULE])),
+    spectatorRackDelayMs: optional(nullable(integer(0))),
+    visibility: optional(oneOf(ROOM_VISIBILITIES)),
+    token,
+  }),
+  joinRoom: object({ roomId, nickname, token }),
+  subscribeLobby: empty,
+  unsubscribeLobby: empty,
+  quickMatch: object({ nickname, language: optional(oneOf(LANGUAGES)), timeControl, tableSize: optional(integer()), token }),
+  cancelQuickMatch: empty,
+  spectateRoom: object({ roomId, nickname }),
+  reconnect: object({ lastRoomId: roomId, playerId: optional(text()), token }),
+  updateSettings: object({ roomId, settings: record() }),
+  toggleReady: object({ roomId, ready: boolean(), token }),
+  addBot: object({ roomId, level: optional(oneOf(BOT_LEVELS)) }),
+  removeBot: object({ roomId, botId: text() }),
+  startGame: object({ roomId, token }),
+  importGame: object({ roomId, format: oneOf(['gcg', 'position']), content: optional(text({ min: 0, max: Infinity })), position: optional(record()) }),
+  playMove: object({
+    roomId,
+    action: oneOf(['play', 'pass', 'exchange']),
+    placements: optional(list(placement)),
+    tileIdsToExchange: optional(list(text())),
+    expectedVersion: optional(integer()),
+    moveId: optional(text({ max: MOVE_ID_MAX_LENGTH })),
+  }),
+  previewMove: object({ roomId, placements: list(placement) }),
+  challenge: inRoom,
+  requestTakeback: inRoom,
+  respondTakeback: object({ roomId, accept: boolean() }),
+  requestHint: object({ roomId, count: optional(integer()) }),
+  exportGame: inRoom,
+  // Empty and long messages get their own codes from the ChatService
+  chatMessage: object({ roomId, text: text({ min: 0, max: Infinity }) }),
+  muteChat: object({ roomId, targetId: text(), muted: optional(boolean()) }),
+  getProfile: object({ playerId: text() }),
+  leaveRoom: inRoom,
+};
+
+const requestIdSchema: Schema = (value, path) =>
+  typeof value === 'string' ? text({ max: REQUEST_ID_MAX_LENGTH })(value, path) : integer()(value, path);
+
+// A message as received on the 'message' event; a missing or null payload counts as {}
+export function parseClientMessage(msg: unknown): ParsedMessage {
+  if (!isObject(msg)) return { ok: false, code: 'BAD_MESSAGE', error: fail('', 'expected { type, payload }') };
+  const { type, requestId } = msg;
+  const payload = msg.payload ?? {};
+  const requestIdError = optional(requestIdSchema)(requestId, 'requestId');
+  if (requestIdError) return { ok: false, code: 'BAD_MESSAGE', error: requestIdError };
+  const echo = requestId as RequestId | undefined;
+  if (typeof type !== 'string') return { ok: false, code: 'BAD_MESSAGE', error: fail('type', 'expected a string'), requestId: echo };
+  if (!Object.prototype.hasOwnProperty.call(PAYLOADS, type)) {
+    return { ok: false, code: 'UNKNOWN_TYPE', error: fail('type', `unknown message type ${type.slice(0, SHORT_TEXT)}`), requestId: echo };
+  }
+  const error = PAYLOADS[type as ClientMessageType](payload, 'payload');
+  if (error) return { ok: false, code: 'BAD_PAYLOAD', error, requestId: echo };
+  return { ok: true, message: { type, payload, requestId: echo } as ClientMessage };
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotService } from '../src/services/BotService';
+import { setRack, startGame } from './helpers';
+import { startServer } from './server';
+
+// Bob is a bot of this level
+function botGame(level: 'random' | 'greedy' | 'strategic') {
+  const setup = startGame({ words: ['CAT', 'ACT', 'AT', 'TA', 'QAT'] });
+  Object.assign(setup.room.players[1], { isBot: true, botLevel: level });
+  return { ...setup, bob: setup.room.players[1], bots: new BotService(setup.game) };
+}
+
+test('a greedy bot plays the best scoring move, a random one any legal move', () => {
+  const { game, room, bob, bots } = botGame('greedy');
+  setRack(room, 'bob', 'CATQXYZ');
+  const best = game.findMoves(room, 'bob', 1)[0];
+  assert.deepEqual(bots.chooseAction(room, bob), { action: 'play', placements: best.placements });
+
+  bob.botLevel = 'random';
+  const legal = game.findMoves(room, 'bob', Number.POSITIVE_INFINITY).map((m) => JSON.stringify(m.placements));
+  for (let i = 0; i < 10; i++) {
+    const { action, placements } = bots.chooseAction(room, bob);
+    assert.equal(action, 'play');
+    assert.ok(legal.includes(JSON.stringify(placements)));
+  }
+});
+
+test('a bot with no play exchanges all but its S and jokers, or passes when the bag is low', () => {
+  const { room, bob, bots } = botGame('strategic');
+  setRack(room, 'bob', 'XYZVWS?');
+  assert.deepEqual(bots.chooseAction(room, bob), { action: 'exchange', tileIdsToExchange: ['X0', 'Y1', 'Z2', 'V3', 'W4'] });
+  room.game!.bag.splice(6);
+  assert.deepEqual(bots.chooseAction(room, bob), { action: 'pass' });
+});
+
+test('a bot seated by the host takes its turn on its own', async (t) => {
+  const server = await startServer({ words: ['CAT'] });
+  t.after(() => server.close());
+  const ann = await server.connect();
+  ann.send('createRoom', { nickname: 'Ann', settings: { language: 'EN' } });
+  const { payload: { roomId } } = await ann.next('session');
+  ann.send('addBot', { roomId, level: 'greedy' });
+  ann.send('toggleReady', { roomId, ready: true });
+  ann.send('startGame', { roomId });
+  await ann.next('gameState');
+  const room = server.roomStore.getRoom(roomId)!;
+  assert.equal(room.game!.activePlayerId, room.players[0].id);
+
+  ann.send('playMove', { roomId, action: 'pass' });
+  const bot = room.players[1];
+  for (let i = 0; i < 100 && room.game!.log.length < 2; i++) await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.deepEqual(room.game!.log.map((m) => m.playerId), [room.players[0].id, bot.id]);
+  assert.equal(room.game!.activePlayerId, room.players[0].id);
+});
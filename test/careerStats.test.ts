@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CareerStatsService } from '../src/services/CareerStatsService';
+import { GameRecorder } from '../src/services/GameRecorder';
+import { ProfileStore } from '../src/services/ProfileStore';
+import { RatingService } from '../src/services/RatingService';
+import { setRack, spell, startGame } from './helpers';
+
+// Ann plays CAT, Bob passes, Ann's exchange is taken back and she passes instead, then
+// Bob leaves, which ends the game
+async function playGame(profiles: ProfileStore) {
+  const recorder = new GameRecorder(new RatingService(profiles), new CareerStatsService(profiles));
+  const { game, store, room } = startGame({ words: ['CAT'], recorder });
+  setRack(room, 'ann', 'CATXYZQ');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  await game.playMove(room, 'bob', 'pass');
+  await game.playMove(room, 'ann', 'exchange', [], ['X3', 'Y4']);
+  game.requestTakeback(room, 'ann');
+  game.respondTakeback(room, 'bob', true);
+  await game.playMove(room, 'ann', 'pass');
+  const removed = store.removePlayerFromRoom(room.id, 'bob')!;
+  const { ended } = await game.forfeit(room, removed.player, removed.seat);
+  assert.equal(ended, true);
+  return room;
+}
+
+test("adds a finished game to each player's career, without the moves taken back", async () => {
+  const profiles = new ProfileStore();
+  const room = await playGame(profiles);
+  const ann = profiles.getProfile('ann')!.career;
+  assert.deepEqual(
+    [ann.gamesPlayed, ann.gamesWon, ann.moves, ann.plays, ann.exchanges, ann.totalPlayScore, ann.bingos],
+    [1, 1, 2, 1, 0, 10, 0],
+  );
+  assert.equal(ann.totalScore, room.players[0].score);
+  assert.deepEqual(ann.wordCounts, { CAT: 1 });
+  assert.equal(ann.bestMove!.score, 10);
+  assert.equal(ann.bestMove!.board[7], '.......CAT.....');
+  assert.equal(ann.timedMoves, 2);
+
+  // Leaving counts as a game played, never as a win
+  const bob = profiles.getProfile('bob')!.career;
+  assert.deepEqual([bob.gamesPlayed, bob.gamesWon, bob.moves, bob.plays], [1, 0, 1, 0]);
+});
+
+test('keeps adding games up, and records each game once', async () => {
+  const profiles = new ProfileStore();
+  const first = await playGame(profiles);
+  await playGame(profiles);
+  // A game already recorded is not counted again
+  assert.ok(first.game!.recordedAt);
+  new GameRecorder(new RatingService(profiles), new CareerStatsService(profiles)).recordGame(first);
+  const ann = profiles.getProfile('ann')!.career;
+  assert.deepEqual([ann.gamesPlayed, ann.gamesWon, ann.plays], [2, 2, 2]);
+  assert.deepEqual(ann.wordCounts, { CAT: 2 });
+});
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHALLENGE_PENALTY_POINTS } from '../src/config/constants';
+import { setRack, spell, startGame } from './helpers';
+
+test("refuses an invalid word outright under the 'void' rule", async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'void' } });
+  setRack(room, 'ann', 'CTA');
+  await assert.rejects(game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CTA')), /INVALID_WORD/);
+  assert.equal(room.game!.pendingChallenge, undefined);
+});
+
+test('withdraws a challenged play with an invalid word and gives the tiles back', async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'points' } });
+  setRack(room, 'ann', 'CTA');
+  const bagBefore = room.game!.bag.length;
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CTA'));
+  assert.ok(room.game!.pendingChallenge);
+  const result = await game.challenge(room, 'bob');
+  assert.equal(result.withdrawn, true);
+  assert.deepEqual(result.invalidWords, ['CTA']);
+  assert.equal(result.move.action, 'withdraw');
+  const ann = room.players[0];
+  assert.equal(ann.score, 0);
+  assert.deepEqual(ann.rack.map((t) => t.id).sort(), ['A2', 'C0', 'T1']);
+  assert.equal(room.game!.bag.length, bagBefore);
+  assert.equal(room.game!.board[7][7].tile, null);
+  assert.equal(room.game!.activePlayerId, 'bob');
+});
+
+test("costs a failed challenger CHALLENGE_PENALTY_POINTS under the 'points' rule", async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'points' } });
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  const result = await game.challenge(room, 'bob');
+  assert.equal(result.withdrawn, false);
+  assert.equal(result.move.action, 'challengePenalty');
+  assert.equal(room.players[1].score, -CHALLENGE_PENALTY_POINTS);
+  assert.equal(room.players[0].score, 10);
+  assert.equal(room.game!.activePlayerId, 'bob');
+});
+
+test("costs a failed challenger their turn under the 'double' rule", async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'double' } });
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  await game.challenge(room, 'bob');
+  assert.equal(room.players[1].score, 0);
+  assert.equal(room.game!.activePlayerId, 'ann');
+});
+
+test('checks a challenged joker play the way the play was checked', async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'points' } });
+  setRack(room, 'ann', '?AT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'cAT'));
+  const result = await game.challenge(room, 'bob');
+  assert.equal(result.withdrawn, false);
+});
+
+test('refuses challenges of your own play or with no window open', async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'points' } });
+  await assert.rejects(game.challenge(room, 'bob'), /NO_CHALLENGE_WINDOW/);
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  await assert.rejects(game.challenge(room, 'ann'), /CANNOT_CHALLENGE_OWN_MOVE/);
+  room.game!.pendingChallenge!.expiresAt = Date.now() - 1;
+  await assert.rejects(game.challenge(room, 'bob'), /NO_CHALLENGE_WINDOW/);
+});
+
+test("closes the window on a play whose player has left, and keeps the play's tiles", async () => {
+  const { game, store, room } = startGame({ words: ['CAT'], options: { challengeRule: 'points' }, guests: ['Bob', 'Cy'] });
+  setRack(room, 'ann', 'CTA');
+  const bagBefore = room.game!.bag.length;
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CTA'));
+  const removed = store.removePlayerFromRoom(room.id, 'ann')!;
+  await game.forfeit(room, removed.player, removed.seat);
+  assert.equal(room.game!.pendingChallenge, undefined);
+  await assert.rejects(game.challenge(room, 'cy'), /NO_CHALLENGE_WINDOW/);
+  assert.equal(room.game!.forfeited![0].score, 10);
+  assert.equal(room.game!.board[7][7].tile?.letter, 'C');
+  // The three tiles drawn after the play came back with the rest of the rack
+  assert.equal(room.game!.bag.length, bagBefore);
+});
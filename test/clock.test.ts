@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OVERTIME_MAX_MS, OVERTIME_PENALTY_POINTS } from '../src/config/constants';
+import type { TimeControl } from '../src/models/types';
+import { startGame } from './helpers';
+
+function clockGame(timeControl: TimeControl) {
+  return startGame({ options: { timeControl } });
+}
+
+test('a chess clock turn lasts the bank plus the allowed overtime', () => {
+  const { room } = clockGame({ mode: 'chessClock', initialMs: 60_000, incrementMs: 0 });
+  const game = room.game!;
+  assert.equal(room.players[0].clockMs, 60_000);
+  assert.equal(game.turnEndsAt - game.turnStartedAt, 60_000 + OVERTIME_MAX_MS);
+});
+
+test('a move charges the time used to the mover, plus the increment', async () => {
+  const { game, room } = clockGame({ mode: 'chessClockIncrement', initialMs: 60_000, incrementMs: 5_000 });
+  room.game!.turnStartedAt = Date.now() - 20_000;
+  await game.playMove(room, 'ann', 'pass');
+  const left = room.players[0].clockMs!;
+  assert.ok(left <= 45_000 && left > 44_000, String(left));
+  assert.equal(room.players[1].clockMs, 60_000);
+});
+
+test('running over the bank costs points per started minute when the game ends', async () => {
+  const { game, room } = clockGame({ mode: 'chessClock', initialMs: 60_000, incrementMs: 0 });
+  room.game!.turnStartedAt = Date.now() - 150_000;
+  await game.playMove(room, 'ann', 'pass');
+  assert.ok(room.players[0].clockMs! < -89_000);
+  const { ended } = await game.expireTurn(room);
+  assert.equal(ended, true);
+  assert.equal(room.status, 'finished');
+  const penalty = room.game!.log.find((m) => m.action === 'timePenalty')!;
+  assert.equal(penalty.playerId, 'ann');
+  assert.equal(penalty.score, -2 * OVERTIME_PENALTY_POINTS);
+  const rackLeft = room.game!.log.find((m) => m.action === 'rackPenalty' && m.playerId === 'ann')!;
+  assert.equal(room.players[0].score, rackLeft.score + penalty.score);
+});
+
+test('using up the overtime ends the game on time', async () => {
+  const { game, room } = clockGame({ mode: 'chessClock', initialMs: 60_000, incrementMs: 0 });
+  room.game!.turnStartedAt = Date.now() - 60_000 - OVERTIME_MAX_MS + 1_000;
+  const { ended } = await game.expireTurn(room);
+  assert.equal(ended, true);
+  const penalties = room.game!.log.filter((m) => m.action === 'timePenalty');
+  assert.deepEqual(penalties.map((m) => [m.playerId, m.score]), [['ann', -(OVERTIME_MAX_MS / 60_000) * OVERTIME_PENALTY_POINTS]]);
+});
+
+test('with a turn length, running out of time passes the turn', async () => {
+  const { game, room } = clockGame({ mode: 'perTurn', initialMs: 0, incrementMs: 0 });
+  const { ended } = await game.expireTurn(room);
+  assert.equal(ended, false);
+  assert.equal(room.game!.activePlayerId, 'bob');
+  assert.equal(room.game!.log[0].action, 'pass');
+});
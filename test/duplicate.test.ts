@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Room } from '../src/models/types';
+import { percentOfTop } from '../src/services/GameService';
+import { setRack, spell, startGame } from './helpers';
+
+// Every player gets the round's rack; give them all these tiles
+function setDuplicateRack(room: Room, letters: string) {
+  const rack = setRack(room, 'ann', letters);
+  room.game!.duplicate!.rack = rack;
+  for (const p of room.players) p.rack = rack.map((t) => ({ ...t }));
+}
+
+function duplicateGame() {
+  const setup = startGame({ words: ['CAT', 'ACT', 'AT', 'TA'], options: { mode: 'duplicate' } });
+  setDuplicateRack(setup.room, 'CATXYZQ');
+  return setup;
+}
+
+test('a duplicate round puts the top play on the board and scores each submission', async () => {
+  const { game, room } = duplicateGame();
+  await game.submitDuplicatePlay(room, 'ann', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  const { allSubmitted } = await game.submitDuplicatePlay(room, 'bob', spell(room, 'bob', 7, 7, 'across', 'AT'));
+  assert.equal(allSubmitted, true);
+  assert.ok(room.game!.board.every((row) => row.every((cell) => !cell.tile)));
+
+  const { round, move, results, ended } = game.closeDuplicateRound(room);
+  assert.equal(round, 1);
+  assert.equal(ended, false);
+  assert.equal(move!.score, 10);
+  assert.equal(move!.playerId, 'ann');
+  assert.deepEqual(results.map((r) => [r.playerId, r.score, r.top]), [['ann', 10, true], ['bob', 4, false]]);
+  assert.deepEqual(room.players.map((p) => p.score), [10, 4]);
+  assert.equal(room.game!.duplicate!.topTotal, 10);
+  assert.deepEqual(game.duplicateStandings(room), { ann: 100, bob: 40 });
+
+  // The next rack is dealt to everyone, without the tiles now on the board
+  const dup = room.game!.duplicate!;
+  for (const pl of move!.placements) assert.ok(room.game!.board[pl.y][pl.x].tile);
+  assert.equal(dup.round, 2);
+  assert.equal(dup.rack.length, 7);
+  assert.ok(!dup.rack.some((t) => ['C0', 'A1', 'T2'].includes(t.id)));
+  assert.deepEqual(room.players[1].rack.map((t) => t.id), dup.rack.map((t) => t.id));
+});
+
+test('a new duplicate submission replaces the previous one, and no placements gives up the round', async () => {
+  const { game, room } = duplicateGame();
+  await game.submitDuplicatePlay(room, 'ann', spell(room, 'ann', 7, 7, 'across', 'AT'));
+  await game.submitDuplicatePlay(room, 'ann', spell(room, 'ann', 7, 7, 'across', 'ACT'));
+  const { submission } = await game.submitDuplicatePlay(room, 'bob', []);
+  assert.equal(submission.score, 0);
+  const { results } = game.closeDuplicateRound(room);
+  assert.deepEqual(results.map((r) => r.score), [10, 0]);
+  assert.equal(room.players[1].stats.passes, 1);
+});
+
+test('refuses duplicate submissions with invalid words or from outside the room', async () => {
+  const { game, room } = duplicateGame();
+  await assert.rejects(game.submitDuplicatePlay(room, 'ann', spell(room, 'ann', 7, 7, 'across', 'TAC')), /INVALID_WORD/);
+  await assert.rejects(game.submitDuplicatePlay(room, 'eve', []), /PLAYER_NOT_IN_ROOM/);
+  assert.deepEqual(room.game!.duplicate!.submissions, {});
+});
+
+test('percentOfTop gives each score as a share of the top total, to one decimal', () => {
+  const players = [{ id: 'ann', score: 10 }, { id: 'bob', score: 2 }, { id: 'cy', score: 31 }] as Room['players'];
+  assert.deepEqual(percentOfTop(players, 30), { ann: 33.3, bob: 6.7, cy: 103.3 });
+  assert.deepEqual(percentOfTop(players, 0), { ann: 0, bob: 0, cy: 0 });
+});
+
+test('a player leaving mid-round puts no copy of the shared rack back in the bag', async () => {
+  const { game, store, room } = startGame({ words: ['CAT'], options: { mode: 'duplicate' }, guests: ['Bob', 'Cy'] });
+  const removed = store.removePlayerFromRoom(room.id, 'cy')!;
+  const { ended } = await game.forfeit(room, removed.player, removed.seat);
+  assert.equal(ended, false);
+  assert.deepEqual(removed.player.rack, []);
+
+  const ids = [...room.game!.bag, ...room.game!.duplicate!.rack].map((t) => t.id);
+  assert.equal(ids.length, 100);
+  assert.equal(new Set(ids).size, 100);
+});
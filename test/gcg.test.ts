@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHALLENGE_PENALTY_POINTS } from '../src/config/constants';
+import { exportGcg } from '../src/services/GcgExporter';
+import { parseGcg } from '../src/services/GameImporter';
+import { setRack, spell, startGame } from './helpers';
+
+function lastMoveLine(gcg: string) {
+  return gcg.trim().split('\n').pop()!;
+}
+
+test('exports an exchange as its number of tiles, or its letters when racks are revealed', async () => {
+  const { game, room } = startGame();
+  setRack(room, 'ann', 'QUAKE');
+  await game.playMove(room, 'ann', 'exchange', [], ['Q0', 'K3']);
+  assert.equal(lastMoveLine(exportGcg(room)), '>Ann: -2 +0 0');
+  assert.equal(lastMoveLine(exportGcg(room, { revealRacks: true })), '>Ann: QUAKE -QK +0 0');
+});
+
+test('counts a Spanish CH as one exchanged tile', () => {
+  const { room } = startGame();
+  room.settings.language = 'ES';
+  room.game!.log.push({ playerId: 'ann', action: 'exchange', words: [], score: 0, placements: [], turnNumber: 1, createdAt: 0, exchanged: 'CHA' });
+  assert.equal(lastMoveLine(exportGcg(room)), '>Ann: -2 +0 0');
+});
+
+test('keeps an exchange logged without its letters an exchange', () => {
+  const { room } = startGame();
+  room.game!.log.push({ playerId: 'ann', action: 'exchange', words: [], score: 0, placements: [], turnNumber: 1, createdAt: 0 });
+  const line = lastMoveLine(exportGcg(room));
+  assert.equal(line, '>Ann: -0 +0 0');
+  const position = parseGcg(`#player1 Ann Ann\n#player2 Bob Bob\n${line}\n`, 15, 'EN');
+  assert.equal(position.moves[0].action, 'exchange');
+});
+
+test('reads the number of tiles of an exchange back from GCG', () => {
+  const position = parseGcg('#player1 Ann Ann\n#player2 Bob Bob\n>Ann: -3 +0 0\n>Bob: CHA -CHA +0 0\n', 15, 'ES');
+  assert.deepEqual(position.moves.map((m) => [m.action, m.exchangedCount, m.exchanged]), [['exchange', 3, undefined], ['exchange', 2, 'CHA']]);
+});
+
+test("exports a failed challenge as the challenger's penalty row, and reads it back", async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { challengeRule: 'points' } });
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  await game.challenge(room, 'bob');
+  const gcg = exportGcg(room);
+  assert.equal(lastMoveLine(gcg), `>Bob: - -${CHALLENGE_PENALTY_POINTS} -${CHALLENGE_PENALTY_POINTS}`);
+  const position = parseGcg(gcg, 15, 'EN');
+  assert.deepEqual(position.moves.map((m) => m.action), ['play', 'challengePenalty']);
+  assert.deepEqual(position.scores, [10, -CHALLENGE_PENALTY_POINTS]);
+  assert.equal(position.toMove, 1);
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { glicko2Update } from '../src/utils/glicko2';
+
+const close = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+test("matches Glickman's worked example", () => {
+  const updated = glicko2Update({ rating: 1500, rd: 200, volatility: 0.06 }, [
+    { opponent: { rating: 1400, rd: 30, volatility: 0.06 }, score: 1 },
+    { opponent: { rating: 1550, rd: 100, volatility: 0.06 }, score: 0 },
+    { opponent: { rating: 1700, rd: 300, volatility: 0.06 }, score: 0 },
+  ], 0.5);
+  close(updated.rating, 1464.06, 0.01);
+  close(updated.rd, 151.52, 0.01);
+  close(updated.volatility, 0.05999, 0.00001);
+});
+
+test('only widens the deviation without games', () => {
+  const player = { rating: 1620, rd: 80, volatility: 0.06 };
+  const updated = glicko2Update(player, [], 0.5);
+  assert.equal(updated.rating, player.rating);
+  assert.equal(updated.volatility, player.volatility);
+  assert.ok(updated.rd > player.rd);
+});
+
+test('moves the winner up and the loser down by the same amount between equals', () => {
+  const player = { rating: 1500, rd: 350, volatility: 0.06 };
+  const winner = glicko2Update(player, [{ opponent: player, score: 1 }], 0.5);
+  const loser = glicko2Update(player, [{ opponent: player, score: 0 }], 0.5);
+  assert.ok(winner.rating > 1500);
+  close(winner.rating - 1500, 1500 - loser.rating, 1e-9);
+  assert.ok(winner.rd < player.rd);
+  const draw = glicko2Update(player, [{ opponent: player, score: 0.5 }], 0.5);
+  close(draw.rating, 1500, 1e-9);
+});
@@ -0,0 +1,81 @@
+import { getLetterDistribution } from '../src/config/constants';
+import type { MovePlacement, Room, RoomOptions, RoomSettings, Tile } from '../src/models/types';
+import { DictionaryRegistry } from '../src/services/DictionaryRegistry';
+import { GameService } from '../src/services/GameService';
+import type { GameRecorder } from '../src/services/GameRecorder';
+import { Lexicon } from '../src/services/Lexicon';
+import { defaultRoomSettings } from '../src/services/RoomSettings';
+import { RoomStore } from '../src/services/RoomStore';
+import type { WordValidator } from '../src/services/WordValidator';
+
+// Shared setup for the GameService tests: an English game between 'ann' and 'bob' on an
+// empty standard board, with a small word list and racks chosen by the test.
+
+// The word list as WordValidatorFile holds it, without the file
+export function wordList(words: string[]): WordValidator {
+  const lexicon = Lexicon.fromWords(words);
+  return {
+    isWordValid: async (word) => (word.includes('?') ? lexicon.matchPattern(word, 1).length > 0 : lexicon.has(word)),
+    getLexicon: () => lexicon,
+  };
+}
+
+export function dictionaryOf(words: string[]): DictionaryRegistry {
+  const dictionaries = new DictionaryRegistry();
+  dictionaries.register({ id: 'test', language: 'EN', name: 'test' }, () => wordList(words));
+  return dictionaries;
+}
+
+export interface GameSetup {
+  words?: string[];
+  settings?: Partial<RoomSettings>;
+  options?: RoomOptions;
+  recorder?: GameRecorder;
+  // Who joins after Ann, by nickname; their id is the nickname in lowercase
+  guests?: string[];
+}
+
+// A room with its game started, Ann to play
+export function startGame({ words = [], settings = {}, options = {}, recorder, guests = ['Bob'] }: GameSetup = {}) {
+  const dictionaries = dictionaryOf(words);
+  const game = new GameService(dictionaries, recorder);
+  const store = new RoomStore();
+  const { room } = store.createRoom({ ...defaultRoomSettings(dictionaries), language: 'EN', dictionary: 'test', ...settings }, 'Ann', 'ann', options);
+  for (const nickname of guests) store.joinRoom(room.id, nickname, nickname.toLowerCase());
+  game.startNewGame(room);
+  room.status = 'playing';
+  return { game, store, room, dictionaries };
+}
+
+const VALUES = new Map(getLetterDistribution('EN').map((d) => [d.letter, d.value]));
+
+// Gives a player exactly these tiles, '?' for a joker. Tile ids are the letter and its
+// position on the rack ('C0', 'A1', '?2'), so tests can name them.
+export function setRack(room: Room, playerId: string, letters: string): Tile[] {
+  const player = room.players.find((p) => p.id === playerId)!;
+  player.rack = [...letters].map((letter, i) => ({
+    id: `${letter}${i}`,
+    letter: letter === '?' ? '' : letter,
+    value: letter === '?' ? 0 : VALUES.get(letter)!,
+    isJoker: letter === '?',
+  }));
+  return player.rack;
+}
+
+// Placements spelling `word` from (x, y) across or down with the player's rack; a lowercase
+// letter is played with a joker. Squares already holding a tile are skipped.
+export function spell(room: Room, playerId: string, x: number, y: number, direction: 'across' | 'down', word: string): MovePlacement[] {
+  const rack = [...room.players.find((p) => p.id === playerId)!.rack];
+  const placements: MovePlacement[] = [];
+  [...word].forEach((letter, i) => {
+    const px = direction === 'across' ? x + i : x;
+    const py = direction === 'down' ? y + i : y;
+    if (room.game!.board[py][px].tile) return;
+    const joker = letter !== letter.toUpperCase();
+    const index = rack.findIndex((t) => (joker ? t.isJoker : t.letter === letter));
+    if (index < 0) throw new Error(`no ${letter} on the rack of ${playerId}`);
+    const [tile] = rack.splice(index, 1);
+    placements.push(joker ? { x: px, y: py, tileId: tile.id, assignedLetter: letter.toUpperCase() } : { x: px, y: py, tileId: tile.id });
+  });
+  return placements;
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultRoomSettings } from '../src/services/RoomSettings';
+import { setRack, spell } from './helpers';
+import { startServer } from './server';
+
+// Three public rooms and a private one, the first with Ann's CAT played against Bob
+async function serverWithRooms(t: { after(fn: () => Promise<void>): void }) {
+  const server = await startServer({ words: ['CAT'] });
+  t.after(() => server.close());
+  const { roomStore, game, dictionaries } = server;
+  const settings = { ...defaultRoomSettings(dictionaries), language: 'EN' as const, dictionary: 'test' };
+  const { room } = roomStore.createRoom(settings, 'Ann', 'ann', { visibility: 'public' });
+  roomStore.joinRoom(room.id, 'Bob', 'bob');
+  game.startNewGame(room);
+  room.status = 'playing';
+  setRack(room, 'ann', 'CATXYZQ');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  roomStore.createRoom(settings, 'Cy', 'cy', { visibility: 'public' });
+  roomStore.createRoom(settings, 'Di', 'di', { visibility: 'public' });
+  const hidden = roomStore.createRoom(settings, 'Eve', 'eve').room;
+  const get = async (route: string) => {
+    const res = await fetch(`${server.url}${route}`);
+    return { status: res.status, body: res.headers.get('content-type')?.includes('json') ? await res.json() : await res.text() };
+  };
+  return { ...server, room, hidden, get };
+}
+
+test('lists public rooms only, filtered and a page at a time', async (t) => {
+  const { room, hidden, get } = await serverWithRooms(t);
+  const all = await get('/rooms');
+  assert.equal(all.status, 200);
+  assert.equal(all.body.total, 3);
+  assert.ok(!all.body.rooms.some((r: any) => r.id === hidden.id));
+  assert.deepEqual((await get('/rooms?status=playing')).body.rooms.map((r: any) => r.id), [room.id]);
+  assert.equal((await get('/rooms?language=fr')).body.total, 0);
+
+  const page = await get('/rooms?limit=2&offset=2');
+  assert.deepEqual([page.body.rooms.length, page.body.total, page.body.limit, page.body.offset], [1, 3, 2, 2]);
+  for (const query of ['limit=0', 'limit=101', 'offset=-1', 'limit=two', 'status=over', 'language=XX']) {
+    const res = await get(`/rooms?${query}`);
+    assert.equal(res.status, 400, query);
+    assert.equal(res.body.error, 'BAD_QUERY');
+  }
+});
+
+test('shows the board and the log of a running game without any rack', async (t) => {
+  const { room, get } = await serverWithRooms(t);
+  const view = await get(`/rooms/${room.id.toLowerCase()}/game`);
+  assert.equal(view.status, 200);
+  assert.equal(view.body.gameState.board[7][7].letter, 'C');
+  assert.deepEqual(view.body.gameState.myRack, []);
+
+  const moves = await get(`/rooms/${room.id}/moves`);
+  assert.equal(moves.body.total, 1);
+  assert.equal(moves.body.moves[0].rack, undefined);
+  const gcg = await get(`/rooms/${room.id}/game.gcg`);
+  assert.match(gcg.body, />Ann: 8H CAT \+10 10/);
+  assert.doesNotMatch(gcg.body, /CATXYZQ/);
+});
+
+test('answers errors as JSON with a code', async (t) => {
+  const { room, get } = await serverWithRooms(t);
+  const cases: Array<[string, number, string]> = [
+    ['/rooms/NOPE', 404, 'ROOM_NOT_FOUND'],
+    ['/rooms/NOPE/game', 404, 'ROOM_NOT_FOUND'],
+    [`/rooms/${room.id}/results`, 409, 'GAME_NOT_FINISHED'],
+    [`/rooms/${room.id}/moves?limit=-3`, 400, 'BAD_QUERY'],
+    [`/rooms/${room.id}/unknown/route`, 404, 'NOT_FOUND'],
+    ['/players/nobody', 404, 'PLAYER_NOT_FOUND'],
+    ['/leaderboards?timeControl=sundial', 400, 'BAD_QUERY'],
+  ];
+  for (const [route, status, code] of cases) {
+    const res = await get(route);
+    assert.deepEqual([res.status, res.body.error, typeof res.body.message], [status, code, 'string'], route);
+  }
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PositionSnapshot } from '../src/models/types';
+import { parseGcg, parseSnapshot } from '../src/services/GameImporter';
+import { startGame } from './helpers';
+
+const EMPTY_ROW = '.'.repeat(15);
+
+function snapshot(changes: Partial<PositionSnapshot> = {}): PositionSnapshot {
+  const board = Array.from({ length: 15 }, () => EMPTY_ROW);
+  board[7] = '.......CaT.....';
+  return { board, racks: ['AEIOU', 'XYZ'], scores: [12, 0], toMove: 1, ...changes };
+}
+
+test('reads a snapshot: tiles, jokers, racks, scores and the seat to move', () => {
+  const position = parseSnapshot(snapshot(), 15, 'EN');
+  assert.deepEqual(position.tiles.map((t) => [t.x, t.y, t.letter, t.isJoker]), [[7, 7, 'C', false], [8, 7, 'A', true], [9, 7, 'T', false]]);
+  assert.deepEqual(position.racks, [['A', 'E', 'I', 'O', 'U'], ['X', 'Y', 'Z']]);
+  assert.deepEqual(position.scores, [12, 0]);
+  assert.equal(position.toMove, 1);
+  assert.deepEqual(parseSnapshot(snapshot({ scores: undefined, toMove: undefined }), 15, 'EN').scores, [0, 0]);
+});
+
+test('splits snapshot racks into tiles, so a Spanish CH counts once', () => {
+  const position = parseSnapshot(snapshot({ racks: ['CHLLRRAEIO', ''] }), 15, 'ES');
+  assert.deepEqual(position.racks[0], ['CH', 'LL', 'RR', 'A', 'E', 'I', 'O']);
+});
+
+test('rejects snapshots with racks over seven tiles', () => {
+  assert.throws(() => parseSnapshot(snapshot({ racks: ['ABCDEFGH', ''] }), 15, 'EN'), /IMPORT_BAD_SNAPSHOT/);
+});
+
+test('rejects snapshots whose scores or seat to move are not whole numbers', () => {
+  for (const changes of [{ scores: ['12', 0] }, { scores: [1.5, 0] }, { toMove: 'one' }, { toMove: 0.5 }]) {
+    assert.throws(() => parseSnapshot(snapshot(changes as unknown as Partial<PositionSnapshot>), 15, 'EN'), /IMPORT_BAD_SNAPSHOT/);
+  }
+  assert.throws(() => parseSnapshot(snapshot({ toMove: 2 }), 15, 'EN'), /IMPORT_BAD_SEAT/);
+  assert.throws(() => parseSnapshot(snapshot({ board: [EMPTY_ROW] }), 15, 'EN'), /IMPORT_BAD_BOARD_SIZE/);
+});
+
+test('replays GCG plays, passes and withdrawn phonies', () => {
+  const gcg = [
+    '#player1 Ann Ann Smith',
+    '#player2 Bob Bob',
+    '>Ann: ACTXYZE 8H CAT +10 10',
+    '>Bob: AEIOUST I7 A.S +3 3',
+    '>Ann: XYZE -  +0 10',
+    '>Bob: EIOUTT 9A TOE +3 6',
+    '>Bob: EIOUTT -- -3 3',
+    '#rack1 XYZE',
+  ].join('\n');
+  const position = parseGcg(gcg, 15, 'EN');
+  assert.equal(position.seats, 2);
+  assert.deepEqual(position.moves.map((m) => m.action), ['play', 'play', 'pass', 'play', 'withdraw']);
+  assert.deepEqual(position.moves[1].words, ['AAS']);
+  assert.deepEqual(position.tiles.map((t) => `${t.letter}${t.x},${t.y}`), ['C7,7', 'A8,7', 'T9,7', 'A8,6', 'S8,8']);
+  assert.deepEqual(position.scores, [10, 3]);
+  assert.deepEqual(position.racks, [['X', 'Y', 'Z', 'E'], undefined]);
+  assert.equal(position.toMove, 0);
+});
+
+test('rejects malformed GCG lines', () => {
+  assert.throws(() => parseGcg('#player1 Ann Ann\n>Eve: - +0 0\n', 15, 'EN'), /IMPORT_UNKNOWN_PLAYER/);
+  assert.throws(() => parseGcg('#player1 Ann Ann\n>Ann: 8H CAT +ten 10\n', 15, 'EN'), /IMPORT_BAD_GCG_SCORE/);
+  assert.throws(() => parseGcg('#player1 Ann Ann\n>Ann: 8H C.T +5 5\n', 15, 'EN'), /IMPORT_BAD_PLAY_THROUGH/);
+  assert.throws(() => parseGcg('#player1 Ann Ann\nnot a move\n', 15, 'EN'), /IMPORT_BAD_GCG_LINE/);
+});
+
+test('refuses to resume a position with a rack over seven tiles', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  const position = parseGcg('#player1 Ann Ann\n#player2 Bob Bob\n>Ann: 8H CAT +10 10\n#rack2 ABCDEFGH\n', 15, 'EN');
+  await assert.rejects(game.startFromPosition(room, position), /IMPORT_BAD_SNAPSHOT/);
+});
+
+test('starts from a snapshot whose tiles form one group through the start square', async () => {
+  const { game, room } = startGame({ words: ['CAT', 'AT'] });
+  const board = snapshot().board.slice();
+  board[8] = '........T......';
+  await game.startFromPosition(room, parseSnapshot(snapshot({ board }), 15, 'EN'));
+  assert.equal(room.game!.board[8][8].tile?.letter, 'T');
+  assert.equal(room.game!.activePlayerId, 'bob');
+});
+
+test('refuses positions normal play could not reach', async () => {
+  const { game, room } = startGame({ words: ['CAT', 'AT'] });
+  const offStart = Array.from({ length: 15 }, () => EMPTY_ROW);
+  offStart[2] = '..CAT..........';
+  await assert.rejects(game.startFromPosition(room, parseSnapshot(snapshot({ board: offStart }), 15, 'EN')), (e: any) => {
+    return e.message === 'IMPORT_FAILED' && e.reason === 'the start square';
+  });
+  const apart = snapshot().board.slice();
+  apart[11] = '...........AT..';
+  await assert.rejects(game.startFromPosition(room, parseSnapshot(snapshot({ board: apart }), 15, 'EN')), (e: any) => {
+    return e.message === 'IMPORT_FAILED' && e.reason === '11,11';
+  });
+  const tooMany = snapshot().board.slice();
+  tooMany[8] = '.......Z.......';
+  tooMany[9] = '.......Z.......';
+  await assert.rejects(game.startFromPosition(room, parseSnapshot(snapshot({ board: tooMany }), 15, 'EN')), (e: any) => {
+    return e.message === 'IMPORT_TILE_COUNT_EXCEEDED' && e.reason === 'Z';
+  });
+  assert.equal(room.game!.log.length, 0);
+});
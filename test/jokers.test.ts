@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRack, spell, startGame } from './helpers';
+
+test('refuses a joker without a letter, or with one outside the tile set', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', '?AT');
+  await assert.rejects(game.playMove(room, 'ann', 'play', [{ x: 7, y: 7, tileId: '?0' }, ...spell(room, 'ann', 8, 7, 'across', 'AT')]), /JOKER_LETTER_REQUIRED/);
+  await assert.rejects(game.playMove(room, 'ann', 'play', [{ x: 7, y: 7, tileId: '?0', assignedLetter: 'Ñ' }, ...spell(room, 'ann', 8, 7, 'across', 'AT')]), /INVALID_JOKER_LETTER/);
+  assert.equal(room.game!.log.length, 0);
+});
+
+test('plays a joker as its assigned letter, for no points, and keeps the letter on the board', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', '?AT');
+  const { move } = await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'cAT'));
+  assert.deepEqual(move.words, ['cAT']);
+  // A and T on the double word start square
+  assert.equal(move.score, 4);
+  const cell = room.game!.board[7][7];
+  assert.equal(cell.tile?.isJoker, true);
+  assert.equal(cell.tile?.assignedLetter, 'C');
+});
+
+test('accepts the assigned letter in lowercase and ignores one given for a regular tile', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', 'C?T');
+  const placements = [{ x: 7, y: 7, tileId: 'C0', assignedLetter: 'Q' }, { x: 8, y: 7, tileId: '?1', assignedLetter: 'a' }, { x: 9, y: 7, tileId: 'T2' }];
+  const { move } = await game.playMove(room, 'ann', 'play', placements);
+  assert.deepEqual(move.words, ['CaT']);
+  assert.equal(room.game!.board[7][7].tile?.assignedLetter, undefined);
+  assert.equal(room.game!.board[7][8].tile?.assignedLetter, 'A');
+});
+
+test('refuses a word the joker does not make', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', '?AT');
+  await assert.rejects(game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'bAT')), /INVALID_WORD/);
+});
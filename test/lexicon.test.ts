@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Lexicon } from '../src/services/Lexicon';
+import { WordValidatorFile } from '../src/services/WordValidator';
+import { encodeWord, fromSquareSymbols } from '../src/utils/letters';
+
+const WORDS = ['cat', 'CATS', 'scat', 'act', 'tact', 'at', 'as', 'ta', 'dog'];
+
+test('looks up words whatever their case, and only whole words', () => {
+  const lexicon = Lexicon.fromWords(WORDS);
+  assert.equal(lexicon.size, WORDS.length);
+  assert.ok(lexicon.has('CAT'));
+  assert.ok(lexicon.has('cats'));
+  assert.ok(!lexicon.has('CA'));
+  assert.ok(!lexicon.has('CATSS'));
+  assert.ok(lexicon.find('CA'));
+  assert.equal(lexicon.find('CX'), undefined);
+});
+
+test('matches patterns and anagrams, blanks included', () => {
+  const lexicon = Lexicon.fromWords(WORDS);
+  assert.deepEqual(lexicon.matchPattern('?AT').sort(), ['CAT']);
+  assert.deepEqual(lexicon.matchPattern('*AT').sort(), ['AT', 'CAT', 'SCAT']);
+  assert.equal(lexicon.matchPattern('C*', 1).length, 1);
+  assert.deepEqual(lexicon.anagrams('TCA').sort(), ['ACT', 'CAT']);
+  assert.deepEqual(lexicon.anagrams('CAT?').sort(), ['CATS', 'SCAT', 'TACT']);
+});
+
+test('finds front and back hooks', () => {
+  const lexicon = Lexicon.fromWords(WORDS);
+  assert.deepEqual(lexicon.frontHooks('CAT'), ['S']);
+  assert.deepEqual(lexicon.backHooks('CAT'), ['S']);
+  assert.deepEqual(lexicon.backHooks('XYZ'), []);
+});
+
+test('survives the binary round trip', () => {
+  const lexicon = Lexicon.fromBinary(Lexicon.fromWords(WORDS).toBinary());
+  assert.equal(lexicon.size, WORDS.length);
+  for (const word of WORDS) assert.ok(lexicon.has(word), word);
+  assert.ok(!lexicon.has('CA'));
+});
+
+test('keeps digraph tiles on one square', () => {
+  const lexicon = Lexicon.fromWords(['CHAL', 'CALLE', 'CARRO'].map((w) => encodeWord(w, ['CH', 'LL', 'RR'])));
+  assert.ok(lexicon.has(encodeWord('calle', ['CH', 'LL', 'RR'])));
+  assert.ok(!lexicon.has('CALLE'));
+  assert.deepEqual(lexicon.matchPattern('???').map(fromSquareSymbols), ['CHAL']);
+  assert.deepEqual(lexicon.matchPattern('CA??').map(fromSquareSymbols).sort(), ['CALLE', 'CARRO']);
+});
+
+test('loads a compiled lexicon next to the word list unless the list changed after it', async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexicon-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const list = path.join(dir, 'words.txt');
+  fs.writeFileSync(list, 'CAT\n');
+  fs.writeFileSync(`${list}.lex`, Lexicon.fromWords(['DOG']).toBinary());
+  const past = new Date(Date.now() - 60_000);
+  fs.utimesSync(list, past, past);
+  assert.ok(await new WordValidatorFile(list).isWordValid('DOG'));
+
+  // The list is edited: its words count, and the compiled file is brought up to date
+  fs.writeFileSync(list, 'CAT\nACT\n');
+  fs.utimesSync(`${list}.lex`, past, past);
+  const validator = new WordValidatorFile(list);
+  assert.ok(await validator.isWordValid('ACT'));
+  assert.ok(!(await validator.isWordValid('DOG')));
+  assert.ok(Lexicon.fromBinary(fs.readFileSync(`${list}.lex`)).has('ACT'));
+  assert.ok(await new WordValidatorFile(list).isWordValid('ACT'));
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRack, spell, startGame } from './helpers';
+
+const WORDS = ['CAT', 'CATS', 'AT', 'TA', 'ACT', 'SAT', 'CA', 'AS', 'TAS', 'SCAT', 'ACTS'];
+
+test('generated moves are legal plays scoring what playing them scores', async () => {
+  const { game, room } = startGame({ words: WORDS });
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  setRack(room, 'bob', 'SAT?');
+  const moves = game.findMoves(room, 'bob', Number.POSITIVE_INFINITY);
+  assert.ok(moves.some((m) => m.placements.length === 1));
+  assert.ok(moves.some((m) => m.placements.some((pl) => pl.assignedLetter)));
+  for (let i = 1; i < moves.length; i++) assert.ok(moves[i - 1].score >= moves[i].score);
+  for (const m of moves) {
+    const where = `${m.word} at ${m.start.x},${m.start.y} ${m.start.direction}`;
+    const preview = await game.previewMove(room, 'bob', m.placements);
+    assert.equal(preview.valid, true, where);
+    assert.equal(preview.score, m.score, where);
+    assert.deepEqual(preview.words.map((w) => w.word), m.words, where);
+  }
+});
+
+test('the first move covers the start square', () => {
+  const { game, room } = startGame({ words: WORDS });
+  setRack(room, 'ann', 'CATS');
+  const moves = game.findMoves(room, 'ann', Number.POSITIVE_INFINITY);
+  assert.ok(moves.length > 0);
+  for (const m of moves) assert.ok(m.placements.some((pl) => pl.x === 7 && pl.y === 7), m.word);
+  assert.equal(moves[0].score, 12);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRack, spell, startGame } from './helpers';
+
+test('refuses a move made on another version of the game', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', 'CAT');
+  const version = room.game!.version;
+  await assert.rejects(game.playMove(room, 'ann', 'pass', [], [], { expectedVersion: version - 1 }), /STALE_STATE/);
+  assert.equal(room.game!.log.length, 0);
+  assert.equal(room.game!.version, version);
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'), [], { expectedVersion: version });
+  assert.equal(room.game!.version, version + 1);
+  await assert.rejects(game.playMove(room, 'bob', 'pass', [], [], { expectedVersion: version }), /STALE_STATE/);
+});
+
+test('refuses a play whose turn moved on while its words were checked', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', 'CAT');
+  const play = game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  const pass = game.playMove(room, 'ann', 'pass');
+  await assert.rejects(play, /STALE_STATE/);
+  await pass;
+  assert.deepEqual(room.game!.log.map((m) => m.action), ['pass']);
+  assert.equal(room.players[0].rack.length, 3);
+});
+
+test("finds a move again by its player's move id", async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', 'CAT');
+  const { move } = await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'), [], { moveId: 'm-1' });
+  await game.playMove(room, 'bob', 'pass', [], [], { moveId: 'm-1' });
+  assert.equal(game.findMoveById(room, 'ann', 'm-1'), move);
+  assert.equal(game.findMoveById(room, 'bob', 'm-1')!.action, 'pass');
+  assert.equal(game.findMoveById(room, 'ann', 'm-2'), undefined);
+});
+
+test('forgets the move id of a move taken back or withdrawn, so a retry plays again', async () => {
+  const { game, room } = startGame({ words: ['CAT'] });
+  setRack(room, 'ann', 'CATXYZQ');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'), [], { moveId: 'm-1' });
+  game.requestTakeback(room, 'ann');
+  game.respondTakeback(room, 'bob', true);
+  assert.equal(game.findMoveById(room, 'ann', 'm-1'), undefined);
+  const { move } = await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'), [], { moveId: 'm-1' });
+  assert.equal(game.findMoveById(room, 'ann', 'm-1'), move);
+
+  const challenged = startGame({ words: ['CAT'], options: { challengeRule: 'points' } });
+  setRack(challenged.room, 'ann', 'CTA');
+  await challenged.game.playMove(challenged.room, 'ann', 'play', spell(challenged.room, 'ann', 7, 7, 'across', 'CTA'), [], { moveId: 'm-1' });
+  await challenged.game.challenge(challenged.room, 'bob');
+  assert.equal(challenged.game.findMoveById(challenged.room, 'ann', 'm-1'), undefined);
+});
+
+test('keeps the move id of a duplicate submission', async () => {
+  const { game, room } = startGame({ words: ['CAT'], options: { mode: 'duplicate' } });
+  const { submission } = await game.submitDuplicatePlay(room, 'ann', [], 'm-1');
+  assert.equal(submission.moveId, 'm-1');
+  assert.equal(room.game!.duplicate!.submissions.ann.moveId, 'm-1');
+});
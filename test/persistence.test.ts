@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DictionaryRegistry } from '../src/services/DictionaryRegistry';
+import { GameService } from '../src/services/GameService';
+import { defaultRoomSettings } from '../src/services/RoomSettings';
+import { FileRoomStorage } from '../src/services/RoomStorage';
+import { RoomStore } from '../src/services/RoomStore';
+import { dictionaryOf, setRack, spell, wordList } from './helpers';
+
+// A game between Ann and Bob, Ann's CAT on the board, saved in a fresh directory
+async function savedGame(t: { after(fn: () => void): void }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rooms-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const dictionaries = dictionaryOf(['CAT']);
+  const store = new RoomStore(new FileRoomStorage(dir));
+  const game = new GameService(dictionaries);
+  const { room } = store.createRoom({ ...defaultRoomSettings(dictionaries), language: 'EN', dictionary: 'test' }, 'Ann', 'ann');
+  store.joinRoom(room.id, 'Bob', 'bob');
+  game.startNewGame(room);
+  room.status = 'playing';
+  setRack(room, 'ann', 'CATXYZQ');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  store.saveRoom(room);
+  return { dir, room };
+}
+
+test('restores a saved game as it was, with everyone disconnected', async (t) => {
+  const { dir, room } = await savedGame(t);
+  const dictionaries = dictionaryOf(['CAT']);
+  const store = new RoomStore(new FileRoomStorage(dir));
+  assert.equal(store.restore(defaultRoomSettings(dictionaries), dictionaries), 1);
+
+  const restored = store.getRoom(room.id)!;
+  assert.notEqual(restored, room);
+  assert.equal(restored.status, 'playing');
+  assert.equal(restored.game!.board[7][8].tile?.letter, 'A');
+  assert.deepEqual(restored.game!.bag.map((t) => t.id), room.game!.bag.map((t) => t.id));
+  assert.deepEqual(restored.players.map((p) => [p.id, p.score, p.rack.length, p.connected]), [['ann', 10, 7, false], ['bob', 0, 7, false]]);
+  assert.equal(restored.game!.activePlayerId, 'bob');
+  assert.equal(restored.game!.version, room.game!.version);
+  assert.ok(restored.game!.turnEndsAt > Date.now());
+
+  // Moves go on against the restored room
+  await new GameService(dictionaries).playMove(restored, 'bob', 'pass');
+  assert.equal(restored.game!.activePlayerId, 'ann');
+});
+
+test("moves a restored room off a dictionary that is gone, or leaves it unloaded when its language has none", async (t) => {
+  const { dir, room } = await savedGame(t);
+  const dictionaries = new DictionaryRegistry();
+  dictionaries.register({ id: 'en-other', language: 'EN', name: 'other' }, () => wordList(['CAT']));
+  const store = new RoomStore(new FileRoomStorage(dir));
+  assert.equal(store.restore(defaultRoomSettings(dictionaries), dictionaries), 1);
+  assert.equal(store.getRoom(room.id)!.settings.dictionary, 'en-other');
+
+  const french = new DictionaryRegistry();
+  french.register({ id: 'fr', language: 'FR', name: 'fr' }, () => wordList([]));
+  const empty = new RoomStore(new FileRoomStorage(dir));
+  assert.equal(empty.restore(defaultRoomSettings(french), french), 0);
+  assert.equal(empty.getRoom(room.id), undefined);
+  // Kept on disk for when an English list is configured again
+  assert.equal(fs.readdirSync(dir).length, 1);
+});
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PROTOCOL_FEATURES, PROTOCOL_MIN_VERSION, PROTOCOL_VERSION } from '../src/config/constants';
+import type { GameStateSummary, MoveSummary, RoomSummary, ServerMessage } from '../src/models/types';
+import { adaptMessage, messageFeature, negotiate } from '../src/ws/protocol';
+
+const room = {
+  id: 'ABCD',
+  hostId: 'p1',
+  status: 'waiting',
+  settings: { maxPlayers: 3, hintPolicy: 'off' },
+  maxPlayers: 3,
+  hintsEnabled: false,
+  mode: 'classic',
+  players: [{ id: 'p1', nickname: 'Ann', connected: true, ready: false, host: true, score: 0, rating: 1500, provisional: true }],
+  spectators: [],
+  visibility: 'private',
+  mutedIds: [],
+} as unknown as RoomSummary;
+
+const gameState = {
+  board: [],
+  myRack: [],
+  scoresByPlayer: { p1: 12 },
+  activePlayerId: 'p1',
+  turnEndsAt: 0,
+  turnDurationMs: 60000,
+  bagCount: 80,
+  log: [
+    { playerId: 'p1', action: 'play', summary: 'Ann: CAT (+12)' },
+    { playerId: 'p1', action: 'takeback', summary: 'Ann: took back a move (-12)' },
+  ],
+  clocks: { p1: { remainingMs: 1000, running: true } },
+  version: 4,
+} as GameStateSummary;
+
+test('negotiates the newest version both sides speak', () => {
+  assert.deepEqual(negotiate({ version: PROTOCOL_VERSION + 3, minVersion: PROTOCOL_MIN_VERSION }), { ok: true, version: PROTOCOL_VERSION, features: PROTOCOL_FEATURES });
+  const old = negotiate({ version: PROTOCOL_MIN_VERSION });
+  assert.ok(old.ok);
+  assert.equal(old.version, PROTOCOL_MIN_VERSION);
+});
+
+test('refuses clients it cannot talk with', () => {
+  const tooOld = negotiate({ version: PROTOCOL_MIN_VERSION - 1 });
+  assert.equal(tooOld.ok, false);
+  const tooNew = negotiate({ version: PROTOCOL_VERSION + 1, minVersion: PROTOCOL_VERSION + 1 });
+  assert.equal(tooNew.ok, false);
+  assert.deepEqual(negotiate({ version: PROTOCOL_VERSION, requiredFeatures: ['chat', 'teleport'] }), {
+    ok: false,
+    message: 'Features not supported by the server: teleport',
+    missingFeatures: ['teleport'],
+  });
+});
+
+test('keeps the features both sides handle, all of them when the client lists none', () => {
+  assert.deepEqual(negotiate({ version: PROTOCOL_VERSION, features: ['lobby', 'chat', 'teleport'] }), { ok: true, version: PROTOCOL_VERSION, features: ['chat', 'lobby'] });
+  assert.deepEqual(negotiate({ version: PROTOCOL_VERSION }), { ok: true, version: PROTOCOL_VERSION, features: PROTOCOL_FEATURES });
+  assert.deepEqual(negotiate({ version: 1 }), { ok: true, version: 1, features: [] });
+});
+
+test('ties message types to their feature', () => {
+  assert.equal(messageFeature('chatMessage'), 'chat');
+  assert.equal(messageFeature('roundEnded'), 'duplicate');
+  assert.equal(messageFeature('session'), undefined);
+  assert.equal(messageFeature('gameState'), undefined);
+});
+
+test('sends messages unchanged on the current version', () => {
+  const message: ServerMessage = { type: 'roomUpdate', payload: { room } };
+  assert.equal(adaptMessage(message, PROTOCOL_VERSION), message);
+});
+
+test('converts room summaries and game states to their version 1 shapes', () => {
+  assert.deepEqual(adaptMessage({ type: 'fullState', payload: { room, layout: {} as any, gameState, chat: [] }, requestId: 7 }, 1), {
+    type: 'fullState',
+    payload: {
+      room: {
+        id: 'ABCD', hostId: 'p1', status: 'waiting', maxPlayers: 3, hintsEnabled: false,
+        players: [{ id: 'p1', nickname: 'Ann', connected: true, ready: false, host: true, score: 0 }],
+      },
+      gameState: {
+        board: [], myRack: [], scoresByPlayer: { p1: 12 }, activePlayerId: 'p1', turnEndsAt: 0, turnDurationMs: 60000, bagCount: 80, version: 4,
+        log: [
+          { playerId: 'p1', action: 'play', summary: 'Ann: CAT (+12)' },
+          { playerId: 'p1', action: 'pass', summary: 'Ann: took back a move (-12)' },
+        ],
+      },
+    },
+    requestId: 7,
+  });
+});
+
+test('converts moves, errors and results to their version 1 shapes', () => {
+  const move = { playerId: 'p1', action: 'withdraw', words: ['CAT'], score: -12, placements: [], turnNumber: 3, createdAt: 5, challengerId: 'p2', rack: 'ACT' } as MoveSummary;
+  assert.deepEqual(adaptMessage({ type: 'moveAccepted', payload: { roomId: 'ABCD', move, replayed: true } }, 1)?.payload, {
+    roomId: 'ABCD',
+    move: { playerId: 'p1', action: 'pass', words: ['CAT'], score: -12, placements: [], turnNumber: 3, createdAt: 5 },
+  });
+  assert.deepEqual(adaptMessage({ type: 'error', payload: { code: 'STALE_STATE', message: 'Game has changed', gameState } }, 1)?.payload, { code: 'STALE_STATE', message: 'Game has changed' });
+  const results = adaptMessage({
+    type: 'gameEnded',
+    payload: { roomId: 'ABCD', mode: 'classic', language: 'EN', startedAt: 0, players: [], scores: { p1: 12 }, statsByPlayer: {}, winnerIds: ['p1'] },
+  }, 1);
+  assert.deepEqual(results?.payload, { roomId: 'ABCD', scores: { p1: 12 }, statsByPlayer: {}, winnerIds: ['p1'] });
+});
+
+test('lets through to version 1 the messages of features, the welcome and sessions', () => {
+  assert.equal(adaptMessage({ type: 'quickMatchCancelled', payload: {} }, 1)?.type, 'quickMatchCancelled');
+  const welcome = { type: 'welcome', payload: {} } as unknown as ServerMessage;
+  assert.equal(adaptMessage(welcome, 1), welcome);
+  const session: ServerMessage = { type: 'session', payload: { roomId: 'ABCD', playerId: 'p1', token: 't' }, requestId: 'r1' };
+  assert.equal(adaptMessage(session, 1), session);
+  assert.equal(adaptMessage({ type: 'sessionReplaced', payload: { roomId: 'ABCD', message: 'Session opened elsewhere' } }, 1)?.type, 'sessionReplaced');
+});
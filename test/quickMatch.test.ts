@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { QUICK_MATCH_TIMEOUT_MS } from '../src/config/constants';
+import { startServer } from './server';
+
+test('seats players waiting for the same game together and starts it', async (t) => {
+  const server = await startServer({ words: ['CAT'] });
+  t.after(() => server.close());
+  const ann = await server.connect();
+  const bob = await server.connect();
+  const cy = await server.connect();
+  ann.send('quickMatch', { nickname: 'Ann', language: 'EN' });
+  assert.equal((await ann.next('quickMatchQueued')).payload.waiting, 1);
+  // Another table size is another queue
+  cy.send('quickMatch', { nickname: 'Cy', language: 'EN', tableSize: 3 });
+  await cy.next('quickMatchQueued');
+  bob.send('quickMatch', { nickname: 'Ann', language: 'EN' });
+
+  const [found, foundBob] = await Promise.all([ann.next('quickMatchFound'), bob.next('quickMatchFound')]);
+  assert.equal(found.payload.roomId, foundBob.payload.roomId);
+  const room = server.roomStore.getRoom(found.payload.roomId)!;
+  assert.equal(room.status, 'playing');
+  // The same nickname twice gets numbered
+  assert.deepEqual(room.players.map((p) => [p.nickname, p.isBot ?? false]), [['Ann', false], ['Ann 2', false]]);
+  assert.equal((await bob.next('session')).payload.playerId, foundBob.payload.playerId);
+  assert.equal(cy.messages.some((m) => m.type === 'quickMatchFound'), false);
+});
+
+test('fills the seats still empty after the timeout with bots', async (t) => {
+  const server = await startServer({ words: ['CAT'] });
+  t.after(() => server.close());
+  const ann = await server.connect();
+  const bob = await server.connect();
+  ann.send('quickMatch', { nickname: 'Ann', language: 'EN', tableSize: 4 });
+  await ann.next('quickMatchQueued');
+  bob.send('quickMatch', { nickname: 'Bob', language: 'EN', tableSize: 4 });
+  assert.equal((await bob.next('quickMatchQueued')).payload.waiting, 2);
+
+  await server.ws.tick(server.clock.now);
+  assert.equal(server.roomStore.listRooms().length, 0);
+  server.clock.now += QUICK_MATCH_TIMEOUT_MS + 1;
+  await server.ws.tick(server.clock.now);
+  const { payload } = await ann.next('quickMatchFound');
+  const room = server.roomStore.getRoom(payload.roomId)!;
+  assert.deepEqual(room.players.map((p) => !!p.isBot), [false, false, true, true]);
+  assert.equal(room.status, 'playing');
+  await bob.next('quickMatchFound');
+});
+
+test('stops waiting when the player cancels', async (t) => {
+  const server = await startServer({ words: ['CAT'] });
+  t.after(() => server.close());
+  const ann = await server.connect();
+  ann.send('quickMatch', { nickname: 'Ann', language: 'EN' });
+  await ann.next('quickMatchQueued');
+  ann.send('cancelQuickMatch');
+  await ann.next('quickMatchCancelled');
+  server.clock.now += QUICK_MATCH_TIMEOUT_MS + 1;
+  await server.ws.tick(server.clock.now);
+  assert.equal(server.roomStore.listRooms().length, 0);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RoomSettings } from '../src/models/types';
+import { applyRoomSettings, defaultRoomSettings } from '../src/services/RoomSettings';
+import { dictionaryOf, wordList } from './helpers';
+
+function setup() {
+  const dictionaries = dictionaryOf([]);
+  dictionaries.register({ id: 'fr', language: 'FR', name: 'fr' }, () => wordList([]));
+  const current: RoomSettings = { ...defaultRoomSettings(dictionaries), language: 'EN', dictionary: 'test' };
+  const apply = (changes: unknown) => applyRoomSettings(current, changes as Partial<RoomSettings>, dictionaries);
+  return { current, apply };
+}
+
+function rejects(apply: () => unknown, field: string) {
+  assert.throws(apply, (e: any) => e.message === 'INVALID_SETTINGS' && e.reason === field, field);
+}
+
+test('applies valid changes on top of the current settings', () => {
+  const { current, apply } = setup();
+  const next = apply({ turnDurationMs: 60_000, bingoBonus: 35, previewWordCheck: true });
+  assert.deepEqual(next, { ...current, turnDurationMs: 60_000, bingoBonus: 35, previewWordCheck: true });
+  assert.equal(current.turnDurationMs, defaultRoomSettings(dictionaryOf([])).turnDurationMs);
+});
+
+test('rejects unknown fields, inherited ones included', () => {
+  const { apply } = setup();
+  rejects(() => apply({ colour: 'blue' }), 'colour');
+  rejects(() => apply({ toString: 1 }), 'toString');
+  rejects(() => apply(JSON.parse('{"__proto__": {"rated": true}}')), '__proto__');
+  rejects(() => apply([]), 'settings');
+  rejects(() => apply(null), 'settings');
+});
+
+test('rejects values out of range or of the wrong type', () => {
+  const { apply } = setup();
+  rejects(() => apply({ turnDurationMs: 1_000 }), 'turnDurationMs');
+  rejects(() => apply({ bingoBonus: 12.5 }), 'bingoBonus');
+  rejects(() => apply({ maxConsecutivePasses: '6' }), 'maxConsecutivePasses');
+  rejects(() => apply({ hintPolicy: 'always' }), 'hintPolicy');
+  rejects(() => apply({ boardLayout: 'round' }), 'boardLayout');
+  rejects(() => apply({ previewWordCheck: 'yes' }), 'previewWordCheck');
+});
+
+test("a new language brings that language's default dictionary", () => {
+  const { apply } = setup();
+  assert.deepEqual([apply({ language: 'FR' }).language, apply({ language: 'FR' }).dictionary], ['FR', 'fr']);
+  rejects(() => apply({ language: 'FR', dictionary: 'test' }), 'dictionary');
+  rejects(() => apply({ dictionary: 'fr' }), 'dictionary');
+  rejects(() => apply({ language: 'XX' }), 'language');
+});
+
+test('rated games never allow takebacks', () => {
+  const { apply } = setup();
+  assert.equal(apply({ rated: true }).allowTakebacks, false);
+  rejects(() => apply({ rated: true, allowTakebacks: true }), 'allowTakebacks');
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRack, spell, startGame } from './helpers';
+
+const WORDS = ['CAT', 'CATS', 'AT', 'TA', 'ACT', 'SAT', 'CA', 'AS'];
+
+test('scores a lone tile by its cross word only', async () => {
+  const { game, room } = startGame({ words: WORDS });
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  setRack(room, 'bob', 'A');
+  // An A under the C: 'CA' down, nothing along the row
+  const { move } = await game.playMove(room, 'bob', 'play', spell(room, 'bob', 7, 8, 'across', 'A'));
+  assert.deepEqual(move.words, ['CA']);
+  assert.equal(move.score, 4);
+});
+
+test('scores a lone tile hooking a word along its line as that word', async () => {
+  const { game, room } = startGame({ words: WORDS });
+  setRack(room, 'ann', 'CAT');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  setRack(room, 'bob', 'S');
+  const { move } = await game.playMove(room, 'bob', 'play', spell(room, 'bob', 7, 7, 'across', 'CATS'));
+  assert.deepEqual(move.words, ['CATS']);
+  assert.equal(move.score, 6);
+});
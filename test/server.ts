@@ -0,0 +1,110 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { Server as IOServer } from 'socket.io';
+import { io as connectClient } from 'socket.io-client';
+import type { Socket as ClientSocket } from 'socket.io-client';
+import { PROTOCOL_VERSION } from '../src/config/constants';
+import { createLeaderboardRouter, createPlayersRouter, createRoomsRouter } from '../src/http/api';
+import { BotService } from '../src/services/BotService';
+import { CareerStatsService } from '../src/services/CareerStatsService';
+import { ChatService } from '../src/services/ChatService';
+import { GameRecorder } from '../src/services/GameRecorder';
+import { GameService } from '../src/services/GameService';
+import { MatchmakingService } from '../src/services/MatchmakingService';
+import { ProfileStore } from '../src/services/ProfileStore';
+import { RatingService } from '../src/services/RatingService';
+import { RoomStore } from '../src/services/RoomStore';
+import { SessionTokens } from '../src/services/SessionTokens';
+import { WebSocketServer } from '../src/ws/WebSocketServer';
+import { dictionaryOf } from './helpers';
+
+// A whole server as index.ts wires it, on a free port, for the tests that go through the
+// socket protocol or the HTTP routes. Bots answer at once, and `clock.now` is the time
+// the services see (matchmaking, sessions), moved forward by the test.
+
+class InstantBots extends BotService {
+  thinkDelayMs() {
+    return 0;
+  }
+}
+
+export interface ServerMessage {
+  type: string;
+  payload: any;
+  requestId?: string;
+}
+
+// A connected client that keeps every message it got, so a test can wait for one that
+// may already have arrived
+export interface TestClient {
+  socket: ClientSocket;
+  messages: ServerMessage[];
+  send(type: string, payload?: object): void;
+  next(type: string, from?: number): Promise<ServerMessage>;
+}
+
+export async function startServer({ words = [] as string[] } = {}) {
+  const clock = { now: Date.now() };
+  const now = () => clock.now;
+  const dictionaries = dictionaryOf(words);
+  const roomStore = new RoomStore();
+  const profiles = new ProfileStore(undefined, now);
+  const ratings = new RatingService(profiles, now);
+  const game = new GameService(dictionaries, new GameRecorder(ratings, new CareerStatsService(profiles), now));
+  const sessions = new SessionTokens('test-secret', now);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/rooms', createRoomsRouter(roomStore, game, ratings));
+  app.use('/leaderboards', createLeaderboardRouter(ratings));
+  app.use('/players', createPlayersRouter(profiles));
+  const server = http.createServer(app);
+  const io = new IOServer(server);
+  const ws = new WebSocketServer(io, roomStore, game, new InstantBots(game), dictionaries, new ChatService([], now), new MatchmakingService(now),
+    profiles, ratings, sessions);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const url = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const clients: ClientSocket[] = [];
+
+  // Speaks the current protocol unless `auth.hello` says otherwise
+  async function connect(auth: Record<string, unknown> = {}): Promise<TestClient> {
+    const socket = connectClient(url, { auth: { hello: { version: PROTOCOL_VERSION }, ...auth }, transports: ['websocket'], forceNew: true, reconnection: false });
+    clients.push(socket);
+    const messages: ServerMessage[] = [];
+    const waiting: Array<() => void> = [];
+    socket.on('message', (message: ServerMessage) => {
+      messages.push(message);
+      for (const wake of waiting.splice(0)) wake();
+    });
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('connect_error', reject);
+    });
+    return {
+      socket,
+      messages,
+      send: (type, payload = {}) => socket.emit('message', { type, payload }),
+      // The first message of this type from index `from` of `messages` on
+      next: (type, from = 0) => new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error(`no ${type} message`)), 2000);
+        const check = () => {
+          const found = messages.slice(from).find((m) => m.type === type);
+          if (!found) return void waiting.push(check);
+          clearTimeout(timeout);
+          resolve(found);
+        };
+        check();
+      }),
+    };
+  }
+
+  async function close() {
+    for (const socket of clients) socket.disconnect();
+    for (const room of roomStore.listRooms()) ws.forgetRoom(room.id);
+    io.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  return { url, clock, ws, io, dictionaries, roomStore, game, profiles, ratings, sessions, connect, close };
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SESSION_TOKEN_TTL_MS } from '../src/config/constants';
+import { SessionTokens } from '../src/services/SessionTokens';
+import { startServer } from './server';
+
+function tokens(at = 1_000_000) {
+  const clock = { now: at };
+  return { clock, sessions: new SessionTokens('secret', () => clock.now) };
+}
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+test('verifies the tokens it issued, for the player they were issued to', () => {
+  const { sessions } = tokens();
+  assert.equal(sessions.verify(sessions.issue('ann')), 'ann');
+  assert.equal(sessions.verify(sessions.issue('bob')), 'bob');
+});
+
+test('refuses tokens signed with another secret or changed after signing', () => {
+  const { sessions } = tokens();
+  const forged = new SessionTokens('other secret', () => 1_000_000).issue('ann');
+  assert.equal(sessions.verify(forged), undefined);
+
+  const [payload, signature] = sessions.issue('ann').split('.');
+  // Another player's id under Ann's signature
+  assert.equal(sessions.verify(`${encode({ pid: 'bob', iat: 1_000_000 })}.${signature}`), undefined);
+  const flipped = signature[0] === 'A' ? `B${signature.slice(1)}` : `A${signature.slice(1)}`;
+  assert.equal(sessions.verify(`${payload}.${flipped}`), undefined);
+  assert.equal(sessions.verify(`${payload}.${signature.slice(0, -2)}`), undefined);
+  assert.equal(sessions.verify(`${payload}.${signature}.extra`), undefined);
+});
+
+test('refuses tokens older than SESSION_TOKEN_TTL_MS', () => {
+  const { clock, sessions } = tokens();
+  const token = sessions.issue('ann');
+  clock.now += SESSION_TOKEN_TTL_MS;
+  assert.equal(sessions.verify(token), 'ann');
+  clock.now += 1;
+  assert.equal(sessions.verify(token), undefined);
+});
+
+test('refuses malformed tokens and signed payloads without a player or issue time', () => {
+  const { sessions } = tokens();
+  for (const token of [undefined, null, 42, {}, '', '.', 'abc', 'abc.', '.abc', '%%%.%%%']) {
+    assert.equal(sessions.verify(token), undefined, String(token));
+  }
+  // Signed by the server, but not a payload it issues
+  const sign = (payload: string) => `${payload}.${(sessions as any).sign(payload)}`;
+  for (const payload of ['not base64url!', encode('ann'), encode({ pid: 'ann' }), encode({ pid: '', iat: 1 }), encode({ pid: 7, iat: 1 }), encode({ pid: 'ann', iat: '1' })]) {
+    assert.equal(sessions.verify(sign(payload)), undefined, payload);
+  }
+  assert.equal(sessions.verify(sign(Buffer.from('{"pid":').toString('base64url'))), undefined);
+});
+
+test("a reconnect needs a valid token, for a seat of the room it names", async (t) => {
+  const server = await startServer();
+  t.after(() => server.close());
+  const ann = await server.connect();
+  ann.send('createRoom', { nickname: 'Ann' });
+  const { payload: session } = await ann.next('session');
+  const bob = await server.connect();
+  bob.send('createRoom', { nickname: 'Bob' });
+  const { payload: bobSession } = await bob.next('session');
+
+  const eve = await server.connect();
+  const attempts = [
+    { lastRoomId: session.roomId, playerId: session.playerId },
+    { lastRoomId: session.roomId, playerId: session.playerId, token: `${session.token}x` },
+    { lastRoomId: session.roomId, token: server.sessions.issue('eve') },
+    // Bob's own token, for a room he has no seat in
+    { lastRoomId: session.roomId, token: bobSession.token },
+  ];
+  const codes: string[] = [];
+  for (const attempt of attempts) {
+    const from = eve.messages.length;
+    eve.send('reconnect', attempt);
+    codes.push((await eve.next('error', from)).payload.code);
+  }
+  assert.deepEqual(codes, ['INVALID_TOKEN', 'INVALID_TOKEN', 'RECONNECT_FAILED', 'RECONNECT_FAILED']);
+  assert.equal(server.roomStore.getRoom(session.roomId)!.players[0].connectionId, ann.socket.id);
+
+  // A token that does not verify is refused at the handshake
+  await assert.rejects(server.connect({ token: 'forged.token' }), /INVALID_TOKEN/);
+
+  const from = eve.messages.length;
+  eve.send('reconnect', { lastRoomId: session.roomId, token: session.token });
+  assert.equal((await eve.next('session', from)).payload.playerId, session.playerId);
+  assert.equal(server.roomStore.getRoom(session.roomId)!.players[0].connectionId, eve.socket.id);
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHAT_RATE_LIMIT } from '../src/config/constants';
+import { ChatService } from '../src/services/ChatService';
+import { startGame } from './helpers';
+
+test('spectators without a session each chat under their own id', () => {
+  const { store, room } = startGame();
+  const chat = new ChatService();
+  const { spectator: first } = store.addSpectator(room.id, 'Cy');
+  const { spectator: second } = store.addSpectator(room.id, 'Di');
+  assert.equal(first.chatKey, first.id);
+  room.mutedKeys.push(first.chatKey);
+  assert.throws(() => chat.post(room, first, 'spectators', 'hello'), /CHAT_MUTED/);
+  for (let i = 0; i < CHAT_RATE_LIMIT; i++) chat.post(room, second, 'spectators', `hello ${i}`);
+  assert.throws(() => chat.post(room, second, 'spectators', 'again'), /CHAT_RATE_LIMITED/);
+});
+
+test('a muted player stays muted watching', () => {
+  const { store, room } = startGame();
+  const chat = new ChatService();
+  room.mutedKeys.push('bob');
+  const { spectator } = store.addSpectator(room.id, 'Bob', 'bob');
+  assert.equal(spectator.chatKey, 'bob');
+  assert.throws(() => chat.post(room, spectator, 'spectators', 'hello'), /CHAT_MUTED/);
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRack, spell, startGame } from './helpers';
+
+async function afterAnnPlaysCat() {
+  const setup = startGame({ words: ['CAT'] });
+  const { game, room } = setup;
+  setRack(room, 'ann', 'CATXYZQ');
+  await game.playMove(room, 'ann', 'play', spell(room, 'ann', 7, 7, 'across', 'CAT'));
+  return setup;
+}
+
+test('a play taken back with consent leaves the game as it was before it', async () => {
+  const { game, room } = await afterAnnPlaysCat();
+  const bag = room.game!.bag.length;
+  const { request, move } = game.requestTakeback(room, 'ann');
+  assert.equal(move, undefined);
+  assert.deepEqual(request.acceptedBy, []);
+  const answer = game.respondTakeback(room, 'bob', true);
+  assert.equal(answer.status, 'accepted');
+  assert.equal(answer.move!.action, 'takeback');
+  assert.equal(answer.move!.score, -10);
+
+  const ann = room.players[0];
+  assert.deepEqual(ann.rack.map((t) => t.id).sort(), ['A1', 'C0', 'Q6', 'T2', 'X3', 'Y4', 'Z5']);
+  assert.equal(ann.score, 0);
+  assert.equal(ann.stats.wordsPlayed, 0);
+  assert.equal(room.game!.bag.length, bag + 3);
+  assert.ok(room.game!.board[7][7].tile === null && !room.game!.board[7][7].bonusUsed);
+  assert.equal(room.game!.activePlayerId, 'ann');
+  assert.equal(room.game!.takebackRequest, undefined);
+});
+
+test('an exchange taken back returns the same tiles to the rack', async () => {
+  const { game, room } = startGame();
+  setRack(room, 'ann', 'QUAKE');
+  await game.playMove(room, 'ann', 'exchange', [], ['Q0']);
+  game.requestTakeback(room, 'ann');
+  game.respondTakeback(room, 'bob', true);
+  assert.deepEqual(room.players[0].rack.map((t) => t.id), ['Q0', 'U1', 'A2', 'K3', 'E4']);
+  assert.ok(!room.game!.bag.some((t) => t.id === 'Q0'));
+});
+
+test('one refusal ends a takeback request', async () => {
+  const { game, room } = await afterAnnPlaysCat();
+  game.requestTakeback(room, 'ann');
+  assert.throws(() => game.respondTakeback(room, 'ann', true), /CANNOT_ANSWER_OWN_REQUEST/);
+  assert.deepEqual(game.respondTakeback(room, 'bob', false), { status: 'declined' });
+  assert.throws(() => game.respondTakeback(room, 'bob', true), /NO_TAKEBACK_REQUEST/);
+  assert.equal(room.players[0].score, 10);
+});
+
+test('only the last move can be taken back, by the player who made it', async () => {
+  const { game, room } = await afterAnnPlaysCat();
+  assert.throws(() => game.requestTakeback(room, 'bob'), /NOTHING_TO_TAKE_BACK/);
+  game.requestTakeback(room, 'ann');
+  assert.throws(() => game.requestTakeback(room, 'ann'), /TAKEBACK_PENDING/);
+  // Bob moving on answers the request and leaves nothing to take back for Ann
+  await game.playMove(room, 'bob', 'pass');
+  assert.equal(room.game!.takebackRequest, undefined);
+  assert.throws(() => game.requestTakeback(room, 'ann'), /NOTHING_TO_TAKE_BACK/);
+});
+
+test('an unanswered request expires', async () => {
+  const { game, room } = await afterAnnPlaysCat();
+  assert.equal(game.expireTakebackRequest(room), false);
+  game.requestTakeback(room, 'ann');
+  room.game!.takebackRequest!.expiresAt = Date.now() - 1;
+  assert.equal(game.expireTakebackRequest(room), true);
+  assert.equal(room.game!.takebackRequest, undefined);
+});
+
+test('rated games and rooms without takebacks refuse requests', async () => {
+  const { game, room } = await afterAnnPlaysCat();
+  room.settings.allowTakebacks = false;
+  assert.throws(() => game.requestTakeback(room, 'ann'), /TAKEBACKS_DISABLED/);
+  room.settings.allowTakebacks = true;
+  room.settings.rated = true;
+  assert.throws(() => game.requestTakeback(room, 'ann'), /TAKEBACKS_DISABLED/);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { REQUEST_ID_MAX_LENGTH } from '../src/config/constants';
+import { parseClientMessage } from '../src/ws/validation';
+
+function failure(msg: unknown) {
+  const parsed = parseClientMessage(msg);
+  assert.equal(parsed.ok, false);
+  return parsed as Extract<ReturnType<typeof parseClientMessage>, { ok: false }>;
+}
+
+test('accepts well-formed messages and lets unknown fields through', () => {
+  const parsed = parseClientMessage({
+    type: 'playMove',
+    payload: { roomId: 'ABC123', action: 'play', placements: [{ x: 7, y: 7, tileId: 't1', assignedLetter: 'E' }], expectedVersion: 3, extra: true },
+    requestId: 12,
+  });
+  assert.equal(parsed.ok, true);
+  assert.equal(parsed.ok && parsed.message.requestId, 12);
+  assert.equal(parseClientMessage({ type: 'subscribeLobby' }).ok, true);
+  assert.equal(parseClientMessage({ type: 'subscribeLobby', payload: null }).ok, true);
+});
+
+test('tells malformed envelopes from unknown types', () => {
+  assert.equal(failure('playMove').code, 'BAD_MESSAGE');
+  assert.deepEqual(failure({ payload: {} }).error, { path: 'type', message: 'expected a string' });
+  const unknown = failure({ type: 'toString', requestId: 'r1' });
+  assert.equal(unknown.code, 'UNKNOWN_TYPE');
+  assert.equal(unknown.requestId, 'r1');
+});
+
+test('points at the first bad field of a payload', () => {
+  const bad = failure({ type: 'playMove', payload: { roomId: 'ABC123', action: 'play', placements: [{ x: 1, y: 1, tileId: 'a' }, { x: -1, y: 0, tileId: 'b' }] }, requestId: 'r2' });
+  assert.equal(bad.code, 'BAD_PAYLOAD');
+  assert.equal(bad.error.path, 'payload.placements[1].x');
+  assert.equal(bad.requestId, 'r2');
+  assert.equal(failure({ type: 'playMove', payload: { roomId: 'ABC123', action: 'resign' } }).error.path, 'payload.action');
+  assert.equal(failure({ type: 'joinRoom', payload: { roomId: 'ABC123' } }).error.path, 'payload.nickname');
+  assert.equal(failure({ type: 'createRoom', payload: { nickname: 'Ann', spectatorRackDelayMs: -5 } }).error.path, 'payload.spectatorRackDelayMs');
+  assert.equal(parseClientMessage({ type: 'createRoom', payload: { nickname: 'Ann', spectatorRackDelayMs: null } }).ok, true);
+  assert.equal(failure({ type: 'updateSettings', payload: { roomId: 'ABC123', settings: [] } }).error.path, 'payload.settings');
+});
+
+test('refuses request ids that are neither short strings nor integers', () => {
+  for (const requestId of [1.5, 'x'.repeat(REQUEST_ID_MAX_LENGTH + 1), '', {}]) {
+    const bad = failure({ type: 'subscribeLobby', requestId });
+    assert.equal(bad.code, 'BAD_MESSAGE');
+    assert.equal(bad.error.path, 'requestId');
+  }
+});